@@ -8,6 +8,12 @@ const SRC = path.join(ROOT, 'src');
 const REGISTRY_PATH = path.join(ROOT, 'registry.json');
 const OUTPUT = path.join(ROOT, 'cli', 'src', 'generated', 'registry.ts');
 
+/**
+ * Modules the CLI runs itself, copied so `theme` generates the same
+ * schemes as ThemeProvider and `scripts/build-themes.ts`.
+ */
+const RUNTIME_MODULES = ['components/ThemeProvider/dynamicColor.ts'];
+
 interface FileEntry {
   path: string;
   target: string;
@@ -20,6 +26,7 @@ interface ComponentEntry {
   files: FileEntry[];
   hooks?: string[];
   styles?: string[];
+  dependencies?: string[];
 }
 
 interface HookEntry {
@@ -86,6 +93,7 @@ function main() {
   lines.push('  files: RegistryFile[];');
   lines.push('  hooks: string[];');
   lines.push('  styles: string[];');
+  lines.push('  dependencies: string[];');
   lines.push('}');
   lines.push('');
   lines.push('export interface RegistryHook {');
@@ -115,6 +123,7 @@ function main() {
     lines.push(`    description: ${JSON.stringify(comp.description)},`);
     lines.push(`    hooks: ${JSON.stringify(comp.hooks || [])},`);
     lines.push(`    styles: ${JSON.stringify(comp.styles || [])},`);
+    lines.push(`    dependencies: ${JSON.stringify(comp.dependencies || [])},`);
     lines.push(`    files: [`);
     lines.push(files.join(',\n'));
     lines.push(`    ],`);
@@ -160,6 +169,12 @@ function main() {
   fs.mkdirSync(path.dirname(OUTPUT), { recursive: true });
   fs.writeFileSync(OUTPUT, lines.join('\n'));
 
+  for (const modulePath of RUNTIME_MODULES) {
+    const content = readSource(modulePath);
+    const target = path.join(path.dirname(OUTPUT), path.basename(modulePath));
+    fs.writeFileSync(target, `// AUTO-GENERATED — do not edit. Copied from src/${modulePath}.\n\n${content}`);
+  }
+
   const compCount = Object.keys(registry.components).length;
   const hookCount = Object.keys(registry.hooks).length;
   const styleCount = Object.keys(registry.styles).length;
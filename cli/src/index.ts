@@ -13,6 +13,17 @@ import {
   STYLES,
   REGISTRY_VERSION,
 } from './generated/registry.js';
+import {
+  CONTRAST_LEVELS,
+  DEFAULT_CONTRAST_LEVEL,
+  DEFAULT_SCHEME_VARIANT,
+  SCHEME_VARIANTS,
+  generateColorScheme,
+  isHexColor,
+  type ColorRoles,
+  type ContrastLevel,
+  type SchemeVariant,
+} from './generated/dynamicColor.js';
 
 const VERSION = '0.4.0';
 
@@ -24,6 +35,13 @@ interface M3Config {
   typescript: boolean;
   cssModules: boolean;
   installed?: Record<string, string>;
+  themes?: Record<string, ThemeConfig>;
+}
+
+interface ThemeConfig {
+  seed: string;
+  variant?: SchemeVariant;
+  contrast?: ContrastLevel;
 }
 
 const DEFAULT_CONFIG: M3Config = {
@@ -76,6 +94,52 @@ function rewriteImports(content: string, config: M3Config): string {
   );
 }
 
+const THEME_NAME = /^[a-z][a-z0-9-]*$/;
+
+function rolesToCss(roles: ColorRoles, indent: string): string {
+  return Object.entries(roles)
+    .map(([cssVar, hex]) => `${indent}${cssVar}: ${hex};\n`)
+    .join('');
+}
+
+/**
+ * Builds `schemes.css` from the registered themes. `default` replaces the
+ * base colors from theme.css; other names apply under `[data-scheme]`.
+ */
+function buildSchemesCss(themes: Record<string, ThemeConfig>): string {
+  let css = '/* AUTO-GENERATED by `npx m3-pure theme` - DO NOT EDIT */\n';
+
+  for (const [name, theme] of Object.entries(themes)) {
+    const { light, dark, variant, contrast } = generateColorScheme(theme.seed, theme);
+    const schemeSelector = name === 'default' ? '' : `[data-scheme="${name}"]`;
+    const lightSelector = schemeSelector || ':root, [data-theme="light"]';
+
+    css += `\n/* ${name} (${theme.seed}, ${variant}, ${contrast} contrast) */\n`;
+    css += `${lightSelector} {\n${rolesToCss(light, '  ')}}\n\n`;
+    css += `[data-theme="dark"]${schemeSelector} {\n${rolesToCss(dark, '  ')}}\n`;
+    css += `\n@media (prefers-color-scheme: dark) {\n  :root:not([data-theme="light"])${schemeSelector} {\n${rolesToCss(dark, '    ')}  }\n}\n`;
+  }
+
+  return css;
+}
+
+/**
+ * Adds `schemes.css` to the m3-pure.css entry, after theme.css so the
+ * generated roles win.
+ */
+async function importSchemes(cwd: string, config: M3Config): Promise<boolean> {
+  const entryPath = path.join(config.stylesDir, 'm3-pure.css');
+  const entry = await readInstalledFile(cwd, entryPath);
+  if (entry === null || entry.includes('schemes.css')) return false;
+
+  const importLine = `@import './schemes.css';\n`;
+  const updated = entry.includes(`@import './theme.css';\n`)
+    ? entry.replace(`@import './theme.css';\n`, `@import './theme.css';\n${importLine}`)
+    : entry + importLine;
+  await writeFile(cwd, entryPath, updated);
+  return true;
+}
+
 const program = new Command();
 
 program
@@ -259,6 +323,7 @@ program
       const skipped: string[] = [];
       const addedHooks = new Set<string>();
       const addedStyles = new Set<string>();
+      const npmDeps = new Set<string>();
 
       if (!config.installed) config.installed = {};
 
@@ -329,6 +394,7 @@ program
           addedStyles.add(styleName);
         }
 
+        comp.dependencies.forEach((d) => npmDeps.add(d));
         config.installed[name] = REGISTRY_VERSION;
       }
 
@@ -356,6 +422,12 @@ program
         }
       }
 
+      if (npmDeps.size > 0) {
+        console.log('');
+        console.log(`  ${chalk.cyan('!')} Install required packages:`);
+        console.log(chalk.dim(`     npm install ${[...npmDeps].join(' ')}`));
+      }
+
       console.log('');
     } catch (err) {
       spinner.fail(chalk.red('Failed to add components'));
@@ -364,6 +436,87 @@ program
     }
   });
 
+// ─── THEME ────────────────────────────────────────────
+program
+  .command('theme')
+  .description('Generate a color scheme from a seed color, or regenerate all registered schemes')
+  .option('-s, --seed <color>', 'Seed color, e.g. "#0B57D0"')
+  .option('-n, --name <name>', 'Scheme name (`default` replaces the base colors)', 'default')
+  .option('--variant <variant>', `Scheme variant: ${SCHEME_VARIANTS.join(', ')}`, DEFAULT_SCHEME_VARIANT)
+  .option('--contrast <level>', `Contrast level: ${CONTRAST_LEVELS.join(', ')}`, DEFAULT_CONTRAST_LEVEL)
+  .option('-c, --cwd <path>', 'Working directory', process.cwd())
+  .action(async (options) => {
+    const cwd = path.resolve(options.cwd);
+    const spinner = ora('Loading config...').start();
+
+    try {
+      const config = await loadConfig(cwd);
+      if (!config) {
+        spinner.fail(chalk.red('No m3-pure.json found. Run `npx m3-pure init` first.'));
+        process.exit(1);
+      }
+
+      if (!config.themes) config.themes = {};
+
+      if (options.seed) {
+        if (!isHexColor(options.seed)) {
+          spinner.fail(chalk.red(`Invalid seed color: ${options.seed}. Expected a hex color like #0B57D0.`));
+          process.exit(1);
+        }
+        if (!THEME_NAME.test(options.name)) {
+          spinner.fail(chalk.red(`Invalid scheme name: ${options.name}. Use lowercase letters, digits and dashes.`));
+          process.exit(1);
+        }
+        if (!SCHEME_VARIANTS.includes(options.variant)) {
+          spinner.fail(chalk.red(`Unknown variant: ${options.variant}. Expected one of ${SCHEME_VARIANTS.join(', ')}.`));
+          process.exit(1);
+        }
+        if (!CONTRAST_LEVELS.includes(options.contrast)) {
+          spinner.fail(chalk.red(`Unknown contrast level: ${options.contrast}. Expected one of ${CONTRAST_LEVELS.join(', ')}.`));
+          process.exit(1);
+        }
+
+        config.themes[options.name] = {
+          seed: options.seed,
+          variant: options.variant,
+          contrast: options.contrast,
+        };
+      }
+
+      const names = Object.keys(config.themes);
+      if (names.length === 0) {
+        spinner.info('No schemes registered. Add one with `npx m3-pure theme --seed "#0B57D0"`.');
+        return;
+      }
+
+      spinner.text = 'Generating schemes...';
+      const target = path.join(config.stylesDir, 'schemes.css');
+      await writeFile(cwd, target, buildSchemesCss(config.themes));
+      await saveConfig(cwd, config);
+      const imported = await importSchemes(cwd, config);
+
+      spinner.succeed(chalk.green(`Generated ${names.length} scheme(s)`));
+      console.log('');
+      for (const name of names) {
+        const { seed, variant = DEFAULT_SCHEME_VARIANT, contrast = DEFAULT_CONTRAST_LEVEL } = config.themes[name];
+        console.log(`  ${chalk.green('✓')} ${chalk.cyan(name)} ${chalk.dim(`${seed} · ${variant} · ${contrast} contrast`)}`);
+      }
+      console.log(`  ${chalk.green('+')} ${chalk.dim(target)}`);
+      if (imported) {
+        console.log(`  ${chalk.green('+')} ${chalk.dim(`schemes.css imported in ${path.join(config.stylesDir, 'm3-pure.css')}`)}`);
+      }
+      if (names.some((name) => name !== 'default')) {
+        console.log('');
+        console.log(chalk.dim('  Apply a named scheme with data-scheme="<name>" on any element'));
+      }
+      console.log('');
+    } catch (err) {
+      spinner.fail(chalk.red('Failed to generate schemes'));
+      console.error(err);
+      process.exit(1);
+    }
+  });
+
 // ─── LIST ─────────────────────────────────────────────
 program
   .command('list')
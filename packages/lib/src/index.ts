@@ -1,5 +1,6 @@
 // Components
 export * from '../../../src/components/Badge';
+export * from '../../../src/components/BottomAppBar';
 export * from '../../../src/components/Button';
 export * from '../../../src/components/Card';
 export * from '../../../src/components/Checkbox';
@@ -13,15 +14,23 @@ export * from '../../../src/components/List';
 export * from '../../../src/components/Menu';
 export * from '../../../src/components/NavigationBar';
 export * from '../../../src/components/NavigationDrawer';
+export * from '../../../src/components/NavigationRail';
 export * from '../../../src/components/Progress';
 export * from '../../../src/components/Radio';
 export * from '../../../src/components/SegmentedButton';
 export * from '../../../src/components/Select';
 export * from '../../../src/components/Slider';
+export * from '../../../src/components/Snackbar';
 export * from '../../../src/components/Switch';
 export * from '../../../src/components/Tabs';
+export * from '../../../src/components/Text';
 export * from '../../../src/components/TextField';
 export * from '../../../src/components/ThemeProvider';
+export * from '../../../src/components/Tooltip';
+export * from '../../../src/components/TopAppBar';
+
+// Design tokens
+export * from '../../../src/styles/tokens';
 
 // Hooks
 export { useRipple } from '../../../src/hooks';
@@ -29,9 +38,31 @@ export { useControllableState } from '../../../src/hooks';
 export { useClickOutside } from '../../../src/hooks';
 export { useKeyboardNavigation } from '../../../src/hooks';
 export { useFormValidation } from '../../../src/hooks';
+export { useToken } from '../../../src/hooks';
+export { useScrollListener } from '../../../src/hooks';
+export type { ScrollContainer, ScrollPosition } from '../../../src/hooks';
 
 // Utilities
-export { cn, mergeRefs, createSafeContext, createOptionalContext } from '../../../src/utils';
+export {
+  cn,
+  mergeRefs,
+  createSafeContext,
+  createOptionalContext,
+  colorRoleStyle,
+  densityStyle,
+  animate,
+  prefersReducedMotion,
+  resolveMotion,
+  MOTION_DURATION,
+  MOTION_EASING,
+} from '../../../src/utils';
+export type {
+  ColorRole,
+  Density,
+  MotionDuration,
+  MotionEasing,
+  MotionOptions,
+} from '../../../src/utils';
 
 // Internals (for advanced usage / custom components)
 export { Field } from '../../../src/internals/Field';
@@ -42,3 +73,5 @@ export { FocusRing } from '../../../src/internals/FocusRing';
 export type { FocusRingProps } from '../../../src/internals/FocusRing';
 export { Item } from '../../../src/internals/Item';
 export type { ItemProps } from '../../../src/internals/Item';
+export { Elevation } from '../../../src/internals/Elevation';
+export type { ElevationProps, ElevationLevel } from '../../../src/internals/Elevation';
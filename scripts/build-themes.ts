@@ -1,63 +1,218 @@
 import { writeFileSync, mkdirSync, existsSync } from 'fs';
-import { 
-  argbFromHex, 
-  themeFromSourceColor,
-  hexFromArgb 
-} from '@material/material-color-utilities';
-
-const SCHEMES: Record<string, string> = {
-  default: '#6750A4',
-  teal: '#006A6A',
-  blue: '#0061A4',
-  green: '#386A20',
-  orange: '#A03D00',
-  pink: '#984061',
-};
-
-function toKebabCase(str: string): string {
-  return str.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase();
+import {
+  WCAG_CONTRAST_RATIOS,
+  auditColorScheme,
+  resolveMinContrast,
+  type ColorSchemeContrastAudit,
+  type WcagLevel,
+} from '../src/components/ThemeProvider/contrast';
+import {
+  COLOR_SCHEME_SEEDS,
+  CONTRAST_LEVELS,
+  DEFAULT_CONTRAST_LEVEL,
+  DEFAULT_SCHEME_VARIANT,
+  SCHEME_VARIANTS,
+  generateColorScheme,
+  type ColorRoles,
+  type ContrastLevel,
+  type CustomColors,
+  type SchemeVariant,
+} from '../src/components/ThemeProvider/dynamicColor';
+
+const SCHEMES: Record<string, string> = COLOR_SCHEME_SEEDS;
+
+/**
+ * Variant every scheme block is generated with.
+ */
+const VARIANT: SchemeVariant = DEFAULT_SCHEME_VARIANT;
+
+/**
+ * Additional variants emitted as `[data-scheme-variant]` blocks so a
+ * subtree can switch variant without runtime generation.
+ */
+const ALTERNATE_VARIANTS: SchemeVariant[] = SCHEME_VARIANTS.filter((v) => v !== VARIANT);
+
+/**
+ * Contrast levels emitted as `[data-contrast]` blocks, generated with
+ * the base `VARIANT` and, combined with `[data-scheme-variant]`, with
+ * each alternate variant.
+ */
+const ALTERNATE_CONTRASTS: ContrastLevel[] = CONTRAST_LEVELS.filter(
+  (c) => c !== DEFAULT_CONTRAST_LEVEL
+);
+
+/**
+ * Custom color roles emitted with every scheme, harmonized toward its seed.
+ *
+ *   npm run build:themes -- --custom-color success=#386A20 --custom-color warning=#7C5800
+ *
+ * Pass `--no-harmonize` to keep the colors' original hues.
+ */
+function parseCustomColors(args: string[]): CustomColors {
+  const harmonize = !args.includes('--no-harmonize');
+  const colors: CustomColors = {};
+
+  args.forEach((arg, i) => {
+    if (arg !== '--custom-color') return;
+    const [name, value] = (args[i + 1] ?? '').split('=');
+    if (!name || !value) {
+      throw new Error(`Expected --custom-color name=#hex, got "${args[i + 1] ?? ''}".`);
+    }
+    colors[name] = { value, harmonize };
+  });
+
+  return colors;
+}
+
+const CUSTOM_COLORS = parseCustomColors(process.argv.slice(2));
+
+/**
+ * Every scheme is audited for WCAG contrast; the build fails when a role
+ * pair falls below the minimum, given as a WCAG level or a ratio:
+ *
+ *   npm run build:themes -- --min-contrast AAA
+ *   npm run build:themes -- --min-contrast 3
+ *
+ * `--contrast-report <file>` writes every checked pair as JSON.
+ */
+function parseFlag(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  if (!value || value.startsWith('--')) {
+    throw new Error(`Expected a value after ${flag}.`);
+  }
+  return value;
+}
+
+function parseMinContrast(args: string[]): WcagLevel | number {
+  const value = parseFlag(args, '--min-contrast') ?? 'AA';
+  return value in WCAG_CONTRAST_RATIOS ? (value as WcagLevel) : Number(value);
+}
+
+const MIN_CONTRAST = resolveMinContrast(parseMinContrast(process.argv.slice(2)));
+const CONTRAST_REPORT = parseFlag(process.argv.slice(2), '--contrast-report');
+
+interface ContrastReportEntry extends ColorSchemeContrastAudit {
+  scheme: string;
+}
+
+function rolesToCss(roles: ColorRoles, indent: string): string {
+  let css = '';
+  for (const [cssVar, hex] of Object.entries(roles)) {
+    css += `${indent}${cssVar}: ${hex};\n`;
+  }
+  return css;
+}
+
+function block(selectors: string[], roles: ColorRoles): string {
+  return `${selectors.join(', ')} {\n${rolesToCss(roles, '  ')}}\n`;
+}
+
+/**
+ * Dark roles for `selector` on the document root when the mode follows
+ * the system, which leaves `data-theme` unset. Outranks the default
+ * scheme's system-dark block below.
+ */
+function systemDarkBlock(selector: string, roles: ColorRoles): string {
+  return (
+    `@media (prefers-color-scheme: dark) {\n` +
+    `  :root:not([data-theme="light"])${selector} {\n${rolesToCss(roles, '    ')}  }\n}\n`
+  );
+}
+
+/**
+ * Selectors matching an element carrying `attr` that is, or sits inside,
+ * an element matching `scope`.
+ */
+function scoped(scope: string, attr: string): string[] {
+  if (!scope) return [attr];
+  return [`${scope}${attr}`, `${scope} ${attr}`];
+}
+
+/**
+ * Print the lowest ratio of each scheme and every failing pair.
+ * Returns the number of failing pairs.
+ */
+function printContrastReport(report: ContrastReportEntry[]): number {
+  const width = Math.max(...report.map((entry) => entry.scheme.length));
+  let failures = 0;
+
+  console.log(`\nContrast (minimum ${MIN_CONTRAST}:1)`);
+  for (const entry of report) {
+    const lowest = (mode: 'light' | 'dark') => Math.min(...entry[mode].map((check) => check.ratio)).toFixed(2);
+    console.log(`  ${entry.passes ? '✓' : '✗'} ${entry.scheme.padEnd(width)}  light ${lowest('light')}  dark ${lowest('dark')}`);
+
+    for (const mode of ['light', 'dark'] as const) {
+      for (const check of entry[mode].filter((c) => !c.passes)) {
+        console.log(`      ${mode}: ${check.foreground} on ${check.background} is ${check.ratio}:1`);
+        failures++;
+      }
+    }
+  }
+
+  return failures;
 }
 
 function buildThemes(): void {
   let css = '/* AUTO-GENERATED by scripts/build-themes.ts - DO NOT EDIT */\n\n';
-  
+  const report: ContrastReportEntry[] = [];
+  const audit = (scheme: string, roles: { light: ColorRoles; dark: ColorRoles }) => {
+    report.push({ scheme, ...auditColorScheme(roles, { minContrast: MIN_CONTRAST }) });
+  };
+
   for (const [name, seed] of Object.entries(SCHEMES)) {
-    const theme = themeFromSourceColor(argbFromHex(seed));
-    
-    const light = theme.schemes.light.toJSON();
-    const dark = theme.schemes.dark.toJSON();
-    
+    const { light, dark } = generateColorScheme(seed, {
+      variant: VARIANT,
+      customColors: CUSTOM_COLORS,
+    });
+    audit(name, { light, dark });
+
     if (name === 'default') {
       css += `/* Default scheme (based on ${seed}) */\n`;
     } else {
       css += `\n/* ${name.charAt(0).toUpperCase() + name.slice(1)} Color Scheme (based on ${seed}) */\n`;
     }
-    
+
     const schemeSelector = name === 'default' ? '' : `[data-scheme="${name}"]`;
-    
-    if (schemeSelector) {
-      css += `${schemeSelector} {\n`;
-    } else {
-      css += `:root, [data-theme="light"] {\n`;
-    }
-    
-    for (const [key, argb] of Object.entries(light)) {
-      const cssVar = `--md-sys-color-${toKebabCase(key)}`;
-      css += `  ${cssVar}: ${hexFromArgb(argb as number)};\n`;
-    }
-    css += `}\n`;
-    
+
     if (schemeSelector) {
-      css += `\n[data-theme="dark"]${schemeSelector} {\n`;
+      css += block([schemeSelector], light);
+      css += '\n' + block([`[data-theme="dark"]${schemeSelector}`], dark);
+      css += '\n' + systemDarkBlock(schemeSelector, dark);
     } else {
-      css += `\n[data-theme="dark"] {\n`;
+      css += block([':root', '[data-theme="light"]'], light);
+      css += '\n' + block(['[data-theme="dark"]'], dark);
     }
-    
-    for (const [key, argb] of Object.entries(dark)) {
-      const cssVar = `--md-sys-color-${toKebabCase(key)}`;
-      css += `  ${cssVar}: ${hexFromArgb(argb as number)};\n`;
+
+    const alternates = [
+      ...ALTERNATE_VARIANTS.map((variant) => ({ variant, contrast: DEFAULT_CONTRAST_LEVEL })),
+      ...ALTERNATE_CONTRASTS.map((contrast) => ({ variant: VARIANT, contrast })),
+      ...ALTERNATE_VARIANTS.flatMap((variant) =>
+        ALTERNATE_CONTRASTS.map((contrast) => ({ variant, contrast }))
+      ),
+    ];
+
+    for (const { variant, contrast } of alternates) {
+      const scheme = generateColorScheme(seed, { variant, contrast, customColors: CUSTOM_COLORS });
+      const labels: string[] = [];
+      let selector = '';
+      if (variant !== VARIANT) {
+        labels.push(variant);
+        selector += `[data-scheme-variant="${variant}"]`;
+      }
+      if (contrast !== DEFAULT_CONTRAST_LEVEL) {
+        labels.push(`${contrast} contrast`);
+        selector += `[data-contrast="${contrast}"]`;
+      }
+      const label = `${name} / ${labels.join(' / ')}`;
+      audit(label, scheme);
+
+      css += `\n/* ${label} */\n`;
+      css += block(scoped(schemeSelector, selector), scheme.light);
+      css += '\n' + block(scoped(`[data-theme="dark"]${schemeSelector}`, selector), scheme.dark);
+      css += '\n' + systemDarkBlock(`${schemeSelector}${selector}`, scheme.dark);
     }
-    css += `}\n`;
   }
 
   css += `
@@ -65,24 +220,34 @@ function buildThemes(): void {
   :root:not([data-theme="light"]) {
     color-scheme: dark;
 `;
-  
-  const defaultDark = themeFromSourceColor(argbFromHex(SCHEMES.default)).schemes.dark.toJSON();
-  for (const [key, argb] of Object.entries(defaultDark)) {
-    const cssVar = `--md-sys-color-${toKebabCase(key)}`;
-    css += `    ${cssVar}: ${hexFromArgb(argb as number)};\n`;
-  }
-  
+
+  css += rolesToCss(
+    generateColorScheme(SCHEMES.default, { variant: VARIANT, customColors: CUSTOM_COLORS }).dark,
+    '    '
+  );
+
   css += `  }
 }
 `;
-  
+
   const tokensDir = 'src/styles/tokens';
   if (!existsSync(tokensDir)) {
     mkdirSync(tokensDir, { recursive: true });
   }
-  
+
   writeFileSync(`${tokensDir}/schemes.css`, css);
   console.log(`✓ Generated ${tokensDir}/schemes.css`);
+
+  if (CONTRAST_REPORT) {
+    writeFileSync(CONTRAST_REPORT, JSON.stringify({ minContrast: MIN_CONTRAST, schemes: report }, null, 2) + '\n');
+    console.log(`✓ Wrote contrast report to ${CONTRAST_REPORT}`);
+  }
+
+  const failures = printContrastReport(report);
+  if (failures > 0) {
+    console.error(`\n✗ ${failures} role pair(s) below ${MIN_CONTRAST}:1`);
+    process.exitCode = 1;
+  }
 }
 
 buildThemes();
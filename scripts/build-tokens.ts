@@ -0,0 +1,110 @@
+import { readFileSync, writeFileSync } from 'fs';
+
+/**
+ * Generates `src/styles/tokens.ts` from the `--md-sys-*` custom properties
+ * declared in `src/styles/theme.css` and the generated color roles in
+ * `src/styles/tokens/schemes.css` (run `build:themes` first).
+ *
+ *   tokens.color.primary              → 'var(--md-sys-color-primary)'
+ *   tokens.typescale.bodyLarge.size   → 'var(--md-sys-typescale-body-large-size)'
+ */
+
+const SOURCES = ['src/styles/theme.css', 'src/styles/tokens/schemes.css'];
+const OUTPUT = 'src/styles/tokens.ts';
+
+/**
+ * Typescale tokens are grouped by role; these are the per-role properties.
+ */
+const TYPESCALE_PROPERTIES = ['font', 'weight', 'size', 'line-height', 'tracking'];
+
+function camelCase(value: string): string {
+  return value.replace(/-([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+type TokenTree = { [key: string]: string | TokenTree };
+
+function readTokenNames(css: string): string[] {
+  const names = new Set<string>();
+  for (const match of css.matchAll(/^\s*(--md-sys-[a-z0-9-]+)\s*:/gm)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Path of a token in the `tokens` object, e.g.
+ * `--md-sys-typescale-body-large-size` → ['typescale', 'bodyLarge', 'size'].
+ */
+function tokenPath(name: string): string[] {
+  const [category, ...rest] = name.replace('--md-sys-', '').split('-');
+  const key = rest.join('-');
+
+  if (category === 'typescale') {
+    const property = TYPESCALE_PROPERTIES.find((p) => key.endsWith(`-${p}`));
+    if (property) {
+      return [category, camelCase(key.slice(0, -property.length - 1)), camelCase(property)];
+    }
+  }
+
+  return [category, camelCase(key)];
+}
+
+function buildTree(names: string[]): TokenTree {
+  const tree: TokenTree = {};
+  for (const name of names) {
+    const path = tokenPath(name);
+    let node = tree;
+    for (const segment of path.slice(0, -1)) {
+      node[segment] ??= {};
+      node = node[segment] as TokenTree;
+    }
+    node[path[path.length - 1]] = `var(${name})`;
+  }
+  return tree;
+}
+
+function treeToTs(tree: TokenTree, indent: string): string {
+  let ts = '';
+  for (const [key, value] of Object.entries(tree)) {
+    if (typeof value === 'string') {
+      ts += `${indent}${key}: '${value}',\n`;
+    } else {
+      ts += `${indent}${key}: {\n${treeToTs(value, indent + '  ')}${indent}},\n`;
+    }
+  }
+  return ts;
+}
+
+function buildTokens(): void {
+  const names = readTokenNames(SOURCES.map((source) => readFileSync(source, 'utf8')).join('\n'));
+
+  let ts = '/* AUTO-GENERATED by scripts/build-tokens.ts - DO NOT EDIT */\n\n';
+
+  ts += `/**
+ * Name of a design token custom property declared in theme.css or schemes.css.
+ */
+export type TokenName =
+${names.map((name) => `  | '${name}'`).join('\n')};
+
+/**
+ * A design token as a CSS \`var()\` reference.
+ */
+export type TokenReference = \`var(\${TokenName})\`;
+
+/**
+ * Design tokens as typed \`var()\` references, for inline styles and CSS-in-JS.
+ *
+ * @example
+ * \`\`\`tsx
+ * <div style={{ color: tokens.color.primary, fontFamily: tokens.typescale.bodyLarge.font }} />
+ * \`\`\`
+ */
+export const tokens = {
+${treeToTs(buildTree(names), '  ')}} as const;
+`;
+
+  writeFileSync(OUTPUT, ts);
+  console.log(`✓ Generated ${OUTPUT} (${names.length} tokens)`);
+}
+
+buildTokens();
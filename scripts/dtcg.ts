@@ -0,0 +1,50 @@
+import { readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import {
+  cssToDtcg,
+  dtcgToCss,
+  type JsonObject,
+} from '../src/components/ThemeProvider/dtcg';
+
+/**
+ * Design Tokens Community Group (DTCG) JSON import/export.
+ *
+ *   npm run tokens:import -- figma-tokens.json [--out src/styles/tokens/dtcg.css]
+ *   npm run tokens:export -- [--out tokens.json]
+ *
+ * The conversion itself lives in `src/components/ThemeProvider/dtcg.ts`.
+ */
+
+const THEME_CSS = 'src/styles/theme.css';
+
+/* ==========================================================================
+   CLI
+   ========================================================================== */
+
+function writeOutput(file: string, content: string): void {
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, content);
+  console.log(`✓ Generated ${file}`);
+}
+
+function main(): void {
+  const [command, ...args] = process.argv.slice(2);
+  const outIndex = args.indexOf('--out');
+  const out = outIndex === -1 ? undefined : args[outIndex + 1];
+  const input = args.find(
+    (arg, i) => !arg.startsWith('--') && (outIndex === -1 || i !== outIndex + 1)
+  );
+
+  if (command === 'import') {
+    if (!input) throw new Error('Usage: tsx scripts/dtcg.ts import <tokens.json> [--out file.css]');
+    const json = JSON.parse(readFileSync(input, 'utf8')) as JsonObject;
+    writeOutput(out ?? 'src/styles/tokens/dtcg.css', dtcgToCss(json));
+  } else if (command === 'export') {
+    const json = cssToDtcg(readFileSync(THEME_CSS, 'utf8'));
+    writeOutput(out ?? 'tokens.json', `${JSON.stringify(json, null, 2)}\n`);
+  } else {
+    throw new Error('Usage: tsx scripts/dtcg.ts <import|export> ...');
+  }
+}
+
+main();
@@ -2,7 +2,7 @@
 
 import { forwardRef } from 'react';
 import styles from './Badge.module.css';
-import { cn } from '../../utils';
+import { cn, colorRoleStyle, type ColorRole } from '../../utils';
 
 export type BadgeSize = 'small' | 'large';
 
@@ -11,6 +11,11 @@ export type BadgeProps = {
   size?: BadgeSize;
   max?: number;
   visible?: boolean;
+  /**
+   * Color role family of the badge, e.g. a ThemeProvider custom color.
+   * @default 'error'
+   */
+  color?: ColorRole;
   className?: string;
   children?: React.ReactNode;
 } & React.HTMLAttributes<HTMLDivElement>;
@@ -24,9 +29,13 @@ function formatValue(value: number | string | undefined, max?: number): string {
 }
 
 export const Badge = forwardRef<HTMLDivElement, BadgeProps>(
-  ({ value, size = 'large', max = 999, visible = true, className, children, ...props }, ref) => {
+  (
+    { value, size = 'large', max = 999, visible = true, color, className, style, children, ...props },
+    ref
+  ) => {
     const displayValue = formatValue(value, max);
     const isSmall = size === 'small' || (value === undefined && size !== 'large');
+    const badgeClass = cn(styles.badge, isSmall ? styles.small : styles.large, color && styles.colored);
 
     if (!visible) {
       return <>{children}</>;
@@ -36,7 +45,8 @@ export const Badge = forwardRef<HTMLDivElement, BadgeProps>(
       return (
         <span
           ref={ref as React.Ref<HTMLSpanElement>}
-          className={cn(styles.badge, isSmall ? styles.small : styles.large, className)}
+          className={cn(badgeClass, className)}
+          style={colorRoleStyle(color, style)}
           {...(props as React.HTMLAttributes<HTMLSpanElement>)}
         >
           {!isSmall && displayValue && <span className={styles.value}>{displayValue}</span>}
@@ -45,9 +55,9 @@ export const Badge = forwardRef<HTMLDivElement, BadgeProps>(
     }
 
     return (
-      <div ref={ref} className={cn(styles.wrapper, className)} {...props}>
+      <div ref={ref} className={cn(styles.wrapper, className)} style={style} {...props}>
         {children}
-        <span className={cn(styles.badge, isSmall ? styles.small : styles.large)}>
+        <span className={badgeClass} style={colorRoleStyle(color)}>
           {!isSmall && displayValue && <span className={styles.value}>{displayValue}</span>}
         </span>
       </div>
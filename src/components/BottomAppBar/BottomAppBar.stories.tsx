@@ -0,0 +1,117 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { useState } from 'react';
+import { BottomAppBar } from './BottomAppBar';
+import { IconButton } from '../IconButton';
+import { Fab } from '../Fab';
+import { NavigationBar, NavigationBarItem } from '../NavigationBar';
+
+const meta: Meta<typeof BottomAppBar> = {
+  title: 'Components/BottomAppBar',
+  component: BottomAppBar,
+  tags: ['autodocs'],
+  parameters: { layout: 'fullscreen' },
+  argTypes: {
+    scrollBehavior: {
+      control: 'select',
+      options: ['none', 'hide'],
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof BottomAppBar>;
+
+const CheckBoxIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M19 3H5c-1.11 0-2 .9-2 2v14c0 1.1.89 2 2 2h14c1.11 0 2-.9 2-2V5c0-1.1-.89-2-2-2zm-9 14l-5-5 1.41-1.41L10 14.17l7.59-7.59L19 8l-9 9z" /></svg>
+);
+const EditIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34a.9959.9959 0 0 0-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z" /></svg>
+);
+const MicIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M12 14c1.66 0 2.99-1.34 2.99-3L15 5c0-1.66-1.34-3-3-3S9 3.34 9 5v6c0 1.66 1.34 3 3 3zm5.3-3c0 3-2.54 5.1-5.3 5.1S6.7 14 6.7 11H5c0 3.41 2.72 6.23 6 6.72V21h2v-3.28c3.28-.48 6-3.3 6-6.72h-1.7z" /></svg>
+);
+const ImageIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M21 19V5c0-1.1-.9-2-2-2H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2zM8.5 13.5l2.5 3.01L14.5 12l4.5 6H5l3.5-4.5z" /></svg>
+);
+const AddIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M19 13h-6v6h-2v-6H5v-2h6V5h2v6h6v2z" /></svg>
+);
+const HomeIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M10 20v-6h4v6h5v-8h3L12 3 2 12h3v8z" /></svg>
+);
+const PersonIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M12 12c2.21 0 4-1.79 4-4s-1.79-4-4-4-4 1.79-4 4 1.79 4 4 4zm0 2c-2.67 0-8 1.34-8 4v2h16v-2c0-2.66-5.33-4-8-4z" /></svg>
+);
+
+const actions = (
+  <>
+    <IconButton aria-label="Check"><CheckBoxIcon /></IconButton>
+    <IconButton aria-label="Edit"><EditIcon /></IconButton>
+    <IconButton aria-label="Voice"><MicIcon /></IconButton>
+    <IconButton aria-label="Image"><ImageIcon /></IconButton>
+  </>
+);
+
+const fab = (
+  <Fab variant="secondary" aria-label="New note"><AddIcon /></Fab>
+);
+
+function PageContent() {
+  return (
+    <div style={{ padding: '16px 16px 176px', fontFamily: 'Roboto, sans-serif' }}>
+      {Array.from({ length: 40 }, (_, i) => (
+        <p key={i} style={{ margin: '0 0 16px', color: 'var(--md-sys-color-on-surface-variant)' }}>
+          Note {i + 1}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+/* ==========================================================================
+   BASIC
+   ========================================================================== */
+
+export const Default: Story = {
+  render: (args) => (
+    <>
+      <PageContent />
+      <BottomAppBar {...args} actions={actions} fab={fab} />
+    </>
+  ),
+};
+
+export const ActionsOnly: Story = {
+  args: { scrollBehavior: 'none' },
+  render: (args) => (
+    <>
+      <PageContent />
+      <BottomAppBar {...args} actions={actions} />
+    </>
+  ),
+};
+
+/* ==========================================================================
+   WITH NAVIGATION BAR
+   ========================================================================== */
+
+/**
+ * With a NavigationBar on the page, the bar stacks above it and hides
+ * behind it on scroll.
+ */
+export const WithNavigationBar: Story = {
+  render: function Render(args) {
+    const [active, setActive] = useState(0);
+
+    return (
+      <>
+        <PageContent />
+        <BottomAppBar {...args} actions={actions} fab={fab} />
+        <NavigationBar activeIndex={active}>
+          <NavigationBarItem icon={<HomeIcon />} label="Home" onClick={() => setActive(0)} />
+          <NavigationBarItem icon={<PersonIcon />} label="Profile" onClick={() => setActive(1)} />
+        </NavigationBar>
+      </>
+    );
+  },
+};
@@ -0,0 +1,61 @@
+'use client';
+
+import { forwardRef, useCallback, useState } from 'react';
+import styles from './BottomAppBar.module.css';
+import { useScrollListener, type ScrollContainer, type ScrollPosition } from '../../hooks';
+import { Elevation } from '../../internals';
+import { cn } from '../../utils';
+
+/**
+ * What the bar does when its scroll container scrolls:
+ * - `none`: stays in view.
+ * - `hide`: slides away on scroll down and back on scroll up.
+ */
+export type BottomAppBarScrollBehavior = 'none' | 'hide';
+
+export type BottomAppBarProps = {
+  /** Up to four action icons, usually `IconButton`s. */
+  actions?: React.ReactNode;
+  /** Floating action button docked at the end of the bar. */
+  fab?: React.ReactNode;
+  /** @default 'hide' */
+  scrollBehavior?: BottomAppBarScrollBehavior;
+  /**
+   * Element whose scrolling drives `scrollBehavior`.
+   * @default window
+   */
+  scrollContainer?: ScrollContainer | null;
+  className?: string;
+} & Omit<React.HTMLAttributes<HTMLDivElement>, 'children'>;
+
+export const BottomAppBar = forwardRef<HTMLDivElement, BottomAppBarProps>(
+  ({ actions, fab, scrollBehavior = 'hide', scrollContainer, className, ...props }, ref) => {
+    const [hidden, setHidden] = useState(false);
+
+    const handleScroll = useCallback(({ top, delta }: ScrollPosition) => {
+      if (delta < 0 || top <= 0) {
+        setHidden(false);
+      } else if (delta > 0) {
+        setHidden(true);
+      }
+    }, []);
+
+    useScrollListener(handleScroll, scrollContainer, scrollBehavior === 'hide');
+
+    const isHidden = scrollBehavior === 'hide' && hidden;
+
+    return (
+      <div
+        ref={ref}
+        className={cn(styles.bar, isHidden && styles.hidden, className)}
+        {...props}
+      >
+        <Elevation />
+        {actions && <div className={styles.actions}>{actions}</div>}
+        {fab && <div className={styles.fab}>{fab}</div>}
+      </div>
+    );
+  }
+);
+
+BottomAppBar.displayName = 'BottomAppBar';
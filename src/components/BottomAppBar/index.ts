@@ -0,0 +1,2 @@
+export { BottomAppBar } from './BottomAppBar';
+export type { BottomAppBarProps, BottomAppBarScrollBehavior } from './BottomAppBar';
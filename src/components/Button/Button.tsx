@@ -3,7 +3,8 @@
 import { forwardRef, useCallback } from 'react';
 import styles from './Button.module.css';
 import { useRipple } from '../../hooks';
-import { cn } from '../../utils';
+import { Elevation } from '../../internals';
+import { cn, colorRoleStyle, densityStyle, type ColorRole, type Density } from '../../utils';
 
 export type ButtonVariant = 'filled' | 'outlined' | 'text' | 'elevated' | 'tonal';
 export type ButtonSize = 'xs' | 'sm' | 'md' | 'lg' | 'xl' | 'icon';
@@ -20,7 +21,17 @@ type ButtonAsType = ButtonAsButton | ButtonAsAnchor;
 
 export type ButtonProps = {
   variant?: ButtonVariant;
+  /**
+   * Color role family the variant is drawn with, e.g. `'error'` or a
+   * ThemeProvider custom color like `'success'`.
+   * @default 'primary'
+   */
+  color?: ColorRole;
   size?: ButtonSize;
+  /**
+   * Density level; inherits the ThemeProvider `density` when unset.
+   */
+  density?: Density;
   square?: boolean;
   disabled?: boolean;
   className?: string;
@@ -37,11 +48,14 @@ export const Button = forwardRef<HTMLButtonElement | HTMLAnchorElement, ButtonPr
   (
     {
       variant = 'filled',
+      color,
       size = 'md',
+      density,
       as = 'button',
       disabled = false,
       square = false,
       className,
+      style,
       children,
       onClick,
       ...props
@@ -68,17 +82,20 @@ export const Button = forwardRef<HTMLButtonElement | HTMLAnchorElement, ButtonPr
       square && styles.square,
       disabled && styles.disabled,
       state.pressed && styles.pressed,
+      color && styles.colored,
       className
     );
 
     const content = (
       <>
+        <Elevation />
         <span 
           ref={surfaceRef} 
           className={styles.ripple}
           aria-hidden="true"
         />
         <span className={styles.stateLayer} aria-hidden="true" />
+        <span className={styles.touch} aria-hidden="true" />
         <span className={styles.content}>{children}</span>
       </>
     );
@@ -89,6 +106,7 @@ export const Button = forwardRef<HTMLButtonElement | HTMLAnchorElement, ButtonPr
         <a
           ref={ref as React.Ref<HTMLAnchorElement>}
           className={buttonClass}
+          style={densityStyle(density, colorRoleStyle(color, style))}
           aria-disabled={disabled || undefined}
           {...anchorProps}
           onPointerEnter={handlers.onPointerEnter}
@@ -108,6 +126,7 @@ export const Button = forwardRef<HTMLButtonElement | HTMLAnchorElement, ButtonPr
       <button
         ref={ref as React.Ref<HTMLButtonElement>}
         className={buttonClass}
+        style={densityStyle(density, colorRoleStyle(color, style))}
         disabled={disabled}
         {...buttonProps}
         onPointerEnter={handlers.onPointerEnter}
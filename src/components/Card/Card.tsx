@@ -4,6 +4,7 @@ import { forwardRef, useCallback } from 'react';
 import styles from './Card.module.css';
 import { useRipple } from '../../hooks';
 import { cn } from '../../utils';
+import { Elevation } from '../../internals';
 
 export type CardVariant = 'elevated' | 'filled' | 'outlined';
 
@@ -53,6 +54,7 @@ export const Card = forwardRef<HTMLDivElement, CardProps>(
         {interactive && <span ref={surfaceRef} className={styles.ripple} aria-hidden="true" />}
         {interactive && <span className={styles.stateLayer} aria-hidden="true" />}
         <div className={styles.background} />
+        <Elevation />
         <div className={styles.content}>{children}</div>
         <div className={styles.outline} />
       </div>
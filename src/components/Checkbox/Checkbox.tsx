@@ -13,6 +13,7 @@ import {
 } from 'react';
 import styles from './Checkbox.module.css';
 import { useRipple } from '../../hooks';
+import { densityStyle, type Density } from '../../utils';
 
 /**
  * @license
@@ -85,6 +86,11 @@ export interface CheckboxProps
    */
   touchTarget?: 'wrapper' | 'none';
 
+  /**
+   * Density level; inherits the ThemeProvider `density` when unset.
+   */
+  density?: Density;
+
   /**
    * Callback fired when the checkbox value changes.
    */
@@ -130,6 +136,7 @@ export const Checkbox = forwardRef<HTMLInputElement, CheckboxProps>(
       value = 'on',
       name,
       touchTarget = 'wrapper',
+      density,
       className = '',
       onChange,
       onInput,
@@ -266,6 +273,7 @@ export const Checkbox = forwardRef<HTMLInputElement, CheckboxProps>(
     return (
       <div
         className={hostClasses}
+        style={densityStyle(density)}
         data-touch-target={touchTarget}
       >
         <div className={containerClasses}>
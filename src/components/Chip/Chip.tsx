@@ -9,6 +9,8 @@ import {
 } from 'react';
 import styles from './Chip.module.css';
 import { useRipple } from '../../hooks';
+import { Elevation } from '../../internals';
+import { colorRoleStyle, densityStyle, type ColorRole, type Density } from '../../utils';
 
 /**
  * @license
@@ -62,6 +64,17 @@ export interface ChipBaseProps {
    */
   icon?: React.ReactNode;
 
+  /**
+   * Color role family for the leading icon and selected state,
+   * e.g. a ThemeProvider custom color like `'success'`.
+   */
+  color?: ColorRole;
+
+  /**
+   * Density level; inherits the ThemeProvider `density` when unset.
+   */
+  density?: Density;
+
   /**
    * Additional CSS class names.
    */
@@ -111,6 +124,8 @@ export const AssistChip = forwardRef<HTMLButtonElement | HTMLAnchorElement, Assi
       href,
       target,
       download,
+      color,
+      density,
       className = '',
       onClick,
       ...props
@@ -145,9 +160,10 @@ export const AssistChip = forwardRef<HTMLButtonElement | HTMLAnchorElement, Assi
       if (softDisabled) classes.push(styles.softDisabled);
       if (isLink) classes.push(styles.link);
       if (icon) classes.push(styles.hasIcon);
+      if (color) classes.push(styles.colored);
       if (className) classes.push(className);
       return classes.join(' ');
-    }, [elevated, disabled, softDisabled, isLink, icon, className]);
+    }, [elevated, disabled, softDisabled, isLink, icon, color, className]);
 
     const rippleClasses = useMemo(() => {
       const classes = [styles.ripple];
@@ -159,7 +175,7 @@ export const AssistChip = forwardRef<HTMLButtonElement | HTMLAnchorElement, Assi
     const content = (
       <>
         <span className={styles.outline} aria-hidden="true" />
-        {elevated && <span className={styles.elevation} aria-hidden="true" />}
+        {elevated && <Elevation className={styles.elevation} />}
         <span className={styles.focusRing} aria-hidden="true" />
         <span ref={surfaceRef} className={rippleClasses} aria-hidden="true" />
         {icon && <span className={styles.leadingIcon} aria-hidden="true">{icon}</span>}
@@ -171,6 +187,7 @@ export const AssistChip = forwardRef<HTMLButtonElement | HTMLAnchorElement, Assi
     const sharedProps = {
       ref: elementRef,
       className: containerClasses,
+      style: densityStyle(density, colorRoleStyle(color)),
       onClick: handleClick,
       onPointerEnter: rippleHandlers.onPointerEnter,
       onPointerLeave: rippleHandlers.onPointerLeave,
@@ -271,6 +288,8 @@ export const FilterChip = forwardRef<HTMLButtonElement, FilterChipProps>(
       removable = false,
       icon,
       selectedIcon,
+      color,
+      density,
       className = '',
       onChange,
       onRemove,
@@ -316,9 +335,10 @@ export const FilterChip = forwardRef<HTMLButtonElement, FilterChipProps>(
       if (selected) classes.push(styles.selected);
       if (icon || selected) classes.push(styles.hasIcon);
       if (removable) classes.push(styles.hasTrailing);
+      if (color) classes.push(styles.colored);
       if (className) classes.push(className);
       return classes.join(' ');
-    }, [elevated, disabled, softDisabled, selected, icon, removable, className]);
+    }, [elevated, disabled, softDisabled, selected, icon, removable, color, className]);
 
     const rippleClasses = useMemo(() => {
       const classes = [styles.ripple];
@@ -333,7 +353,7 @@ export const FilterChip = forwardRef<HTMLButtonElement, FilterChipProps>(
       : icon;
 
     return (
-      <div className={containerClasses}>
+      <div className={containerClasses} style={densityStyle(density, colorRoleStyle(color))}>
         <button
           ref={buttonRef}
           type="button"
@@ -350,7 +370,7 @@ export const FilterChip = forwardRef<HTMLButtonElement, FilterChipProps>(
           {...props}
         >
           <span className={styles.outline} aria-hidden="true" />
-          {elevated && <span className={styles.elevation} aria-hidden="true" />}
+          {elevated && <Elevation className={styles.elevation} />}
           <span className={styles.focusRing} aria-hidden="true" />
           <span ref={surfaceRef} className={rippleClasses} aria-hidden="true" />
           {leadingIcon && (
@@ -443,6 +463,8 @@ export const InputChip = forwardRef<HTMLButtonElement | HTMLAnchorElement, Input
       icon,
       href,
       target,
+      color,
+      density,
       className = '',
       onClick,
       onRemove,
@@ -491,9 +513,10 @@ export const InputChip = forwardRef<HTMLButtonElement | HTMLAnchorElement, Input
       if (avatar) classes.push(styles.avatar);
       if (isLink) classes.push(styles.link);
       if (icon) classes.push(styles.hasIcon);
+      if (color) classes.push(styles.colored);
       if (className) classes.push(className);
       return classes.join(' ');
-    }, [disabled, softDisabled, selected, avatar, isLink, icon, className]);
+    }, [disabled, softDisabled, selected, avatar, isLink, icon, color, className]);
 
     const rippleClasses = useMemo(() => {
       const classes = [styles.ripple];
@@ -521,7 +544,11 @@ export const InputChip = forwardRef<HTMLButtonElement | HTMLAnchorElement, Input
     );
 
     return (
-      <div ref={elementRef as React.Ref<HTMLDivElement>} className={containerClasses}>
+      <div
+        ref={elementRef as React.Ref<HTMLDivElement>}
+        className={containerClasses}
+        style={densityStyle(density, colorRoleStyle(color))}
+      >
         <span className={styles.outline} aria-hidden="true" />
         <span className={styles.focusRing} aria-hidden="true" />
         <span ref={surfaceRef} className={rippleClasses} aria-hidden="true" />
@@ -10,6 +10,7 @@ import {
   useId,
 } from 'react';
 import styles from './Dialog.module.css';
+import { animate, type MotionOptions } from '../../utils';
 
 /**
  * @license
@@ -28,16 +29,6 @@ import styles from './Dialog.module.css';
  * @see https://m3.material.io/components/dialogs
  */
 
-/* ==========================================================================
-   ANIMATION CONSTANTS
-   ========================================================================== */
-
-const EASING = {
-  EMPHASIZED: 'cubic-bezier(0.2, 0, 0, 1)',
-  EMPHASIZED_ACCELERATE: 'cubic-bezier(0.3, 0, 0.8, 0.15)',
-  EMPHASIZED_DECELERATE: 'cubic-bezier(0.05, 0.7, 0.1, 1)',
-};
-
 /* ==========================================================================
    DIALOG PROPS
    ========================================================================== */
@@ -235,11 +226,11 @@ export const Dialog = forwardRef<DialogRef, DialogProps>(
       async (
         element: Element,
         keyframes: Keyframe[] | PropertyIndexedKeyframes,
-        options: KeyframeAnimationOptions
+        options: MotionOptions
       ): Promise<void> => {
         if (quick) return;
         try {
-          await element.animate(keyframes, options).finished;
+          await animate(element, keyframes, options).finished;
         } catch {
           // Animation was cancelled
         }
@@ -261,7 +252,7 @@ export const Dialog = forwardRef<DialogRef, DialogProps>(
         animateElement(
           dialog,
           [{ transform: 'translateY(-50px)' }, { transform: 'translateY(0)' }],
-          { duration: 500, easing: EASING.EMPHASIZED }
+          { duration: 'long2', easing: 'emphasized' }
         )
       );
 
@@ -270,7 +261,7 @@ export const Dialog = forwardRef<DialogRef, DialogProps>(
       if (scrim) {
         animations.push(
           animateElement(scrim, [{ opacity: 0 }, { opacity: 0.32 }], {
-            duration: 500,
+            duration: 'long2',
             easing: 'linear',
           })
         );
@@ -281,7 +272,7 @@ export const Dialog = forwardRef<DialogRef, DialogProps>(
       if (container) {
         animations.push(
           animateElement(container, [{ opacity: 0 }, { opacity: 1 }], {
-            duration: 50,
+            duration: 'short1',
             easing: 'linear',
           })
         );
@@ -297,7 +288,7 @@ export const Dialog = forwardRef<DialogRef, DialogProps>(
               { opacity: 0, offset: 0.2 },
               { opacity: 1 },
             ],
-            { duration: 250, easing: 'linear', fill: 'forwards' }
+            { duration: 'medium1', easing: 'linear', fill: 'forwards' }
           )
         );
       }
@@ -319,7 +310,7 @@ export const Dialog = forwardRef<DialogRef, DialogProps>(
         animateElement(
           dialog,
           [{ transform: 'translateY(0)' }, { transform: 'translateY(-50px)' }],
-          { duration: 150, easing: EASING.EMPHASIZED_ACCELERATE }
+          { duration: 'short3', easing: 'emphasized-accelerate' }
         )
       );
 
@@ -328,7 +319,7 @@ export const Dialog = forwardRef<DialogRef, DialogProps>(
       if (scrim) {
         animations.push(
           animateElement(scrim, [{ opacity: 0.32 }, { opacity: 0 }], {
-            duration: 150,
+            duration: 'short3',
             easing: 'linear',
           })
         );
@@ -339,7 +330,7 @@ export const Dialog = forwardRef<DialogRef, DialogProps>(
       if (scroller) {
         animations.push(
           animateElement(scroller, [{ opacity: 1 }, { opacity: 0 }], {
-            duration: 100,
+            duration: 'short2',
             easing: 'linear',
             fill: 'forwards',
           })
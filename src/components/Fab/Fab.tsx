@@ -3,6 +3,7 @@
 import { forwardRef, useCallback } from 'react';
 import styles from './Fab.module.css';
 import { useRipple } from '../../hooks';
+import { Elevation } from '../../internals';
 import { cn } from '../../utils';
 
 export type FabVariant = 'primary' | 'secondary' | 'tertiary' | 'surface';
@@ -71,6 +72,7 @@ export const Fab = forwardRef<HTMLButtonElement | HTMLAnchorElement, FabProps>(
 
     const content = (
       <>
+        <Elevation />
         <span ref={surfaceRef} className={styles.ripple} aria-hidden="true" />
         <span className={styles.stateLayer} aria-hidden="true" />
         <span className={styles.content}>
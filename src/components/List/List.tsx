@@ -3,17 +3,19 @@
 import { forwardRef, useCallback } from 'react';
 import styles from './List.module.css';
 import { useRipple, useKeyboardNavigation } from '../../hooks';
-import { cn } from '../../utils';
+import { cn, densityStyle, type Density } from '../../utils';
 
 export type ListItemType = 'text' | 'button' | 'link';
 
 export interface ListProps {
+  /** Density level of every item; inherits the ThemeProvider `density` when unset */
+  density?: Density;
   className?: string;
   children?: React.ReactNode;
 }
 
 export const List = forwardRef<HTMLUListElement, ListProps>(
-  ({ className, children }, ref) => {
+  ({ density, className, children }, ref) => {
     const { handleKeyDown } = useKeyboardNavigation({
       selector: '[role="listitem"]:not([aria-disabled="true"])',
       orientation: 'vertical',
@@ -24,6 +26,7 @@ export const List = forwardRef<HTMLUListElement, ListProps>(
         ref={ref}
         role="list"
         className={cn(styles.list, className)}
+        style={densityStyle(density)}
         onKeyDown={handleKeyDown}
       >
         {children}
@@ -47,6 +50,8 @@ export interface ListItemProps {
   onClick?: (e: React.MouseEvent) => void;
   href?: string;
   target?: string;
+  /** Density level; inherits from the List or ThemeProvider when unset */
+  density?: Density;
   className?: string;
   children?: React.ReactNode;
 }
@@ -66,6 +71,7 @@ export const ListItem = forwardRef<HTMLLIElement, ListItemProps>(
       onClick,
       href,
       target,
+      density,
       className,
     },
     ref
@@ -165,6 +171,7 @@ export const ListItem = forwardRef<HTMLLIElement, ListItemProps>(
           hasTrailing && styles.hasTrailing,
           className
         )}
+        style={densityStyle(density)}
         onClick={handleClick}
         onKeyDown={handleKeyDown}
         onPointerEnter={isInteractive ? handlers.onPointerEnter : undefined}
@@ -10,6 +10,7 @@ import {
 } from 'react';
 import styles from './Menu.module.css';
 import { useRipple, useClickOutside, useKeyboardNavigation } from '../../hooks';
+import { Elevation } from '../../internals';
 import { cn, createSafeContext, mergeRefs } from '../../utils';
 
 interface MenuContextValue {
@@ -114,6 +115,7 @@ export const Menu = forwardRef<HTMLDivElement, MenuProps>(
           }}
           onKeyDown={handleKeyDown}
         >
+          <Elevation />
           <div className={styles.menuContent}>{children}</div>
         </div>
       </MenuProvider>
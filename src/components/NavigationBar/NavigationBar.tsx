@@ -3,6 +3,7 @@
 import { forwardRef, useCallback } from 'react';
 import styles from './NavigationBar.module.css';
 import { useRipple } from '../../hooks';
+import { Elevation } from '../../internals';
 import { cn, createOptionalContext } from '../../utils';
 
 interface NavBarContext {
@@ -24,7 +25,8 @@ export const NavigationBar = forwardRef<HTMLElement, NavigationBarProps>(
   ({ activeIndex = 0, onChange, hideLabels = false, className, children, ...props }, ref) => {
     return (
       <NavBarProvider value={{ activeIndex, hideLabels }}>
-        <nav ref={ref} className={cn(styles.bar, className)} role="navigation" {...props}>
+        <nav ref={ref} className={cn(styles.bar, className)} role="navigation" data-navigation-bar="" {...props}>
+          <Elevation />
           <div className={styles.content}>
             {Array.isArray(children)
               ? children.map((child, i) => {
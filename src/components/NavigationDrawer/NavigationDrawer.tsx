@@ -2,6 +2,7 @@
 
 import { forwardRef, useCallback, useEffect, useRef } from 'react';
 import styles from './NavigationDrawer.module.css';
+import { Elevation } from '../../internals';
 import { cn } from '../../utils';
 
 export type NavigationDrawerProps = {
@@ -46,6 +47,7 @@ export const NavigationDrawer = forwardRef<HTMLElement, NavigationDrawerProps>(
             aria-modal="true"
             {...props}
           >
+            <Elevation />
             <div className={styles.content}>{children}</div>
           </aside>
         </div>
@@ -0,0 +1,113 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { useState } from 'react';
+import { NavigationRail, NavigationRailItem, type NavigationRailProps } from './NavigationRail';
+import { IconButton } from '../IconButton';
+import { Fab } from '../Fab';
+import { Badge } from '../Badge';
+
+const meta: Meta<typeof NavigationRail> = {
+  title: 'Components/NavigationRail',
+  component: NavigationRail,
+  tags: ['autodocs'],
+  parameters: { layout: 'fullscreen' },
+  decorators: [(Story) => <div style={{ height: 560, display: 'flex' }}><Story /></div>],
+  argTypes: {
+    labelVisibility: {
+      control: 'select',
+      options: ['all', 'selected', 'none'],
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof NavigationRail>;
+
+const MenuIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M3 18h18v-2H3v2zm0-5h18v-2H3v2zm0-7v2h18V6H3z" /></svg>
+);
+const MenuOpenIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M3 18h13v-2H3v2zm0-5h10v-2H3v2zm0-7v2h13V6H3zm18 9.59L17.42 12 21 8.41 19.59 7l-5 5 5 5L21 15.59z" /></svg>
+);
+const EditIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34a.9959.9959 0 0 0-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z" /></svg>
+);
+const InboxIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M19 3H4.99c-1.11 0-1.98.89-1.98 2L3 19c0 1.1.88 2 1.99 2H19c1.1 0 2-.9 2-2V5c0-1.11-.9-2-2-2zm0 12h-4c0 1.66-1.35 3-3 3s-3-1.34-3-3H4.99V5H19v10z" /></svg>
+);
+const StarIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M12 17.27L18.18 21l-1.64-7.03L22 9.24l-7.19-.61L12 2 9.19 8.63 2 9.24l5.46 4.73L5.82 21z" /></svg>
+);
+const SendIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M2.01 21L23 12 2.01 3 2 10l15 2-15 2z" /></svg>
+);
+const DeleteIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z" /></svg>
+);
+
+function Rail({ header, ...args }: NavigationRailProps) {
+  const [active, setActive] = useState(0);
+
+  return (
+    <NavigationRail {...args} header={header} activeIndex={active} onChange={setActive}>
+      <NavigationRailItem icon={<InboxIcon />} label="Inbox" badge={<Badge value={12} />} />
+      <NavigationRailItem icon={<StarIcon />} label="Starred" />
+      <NavigationRailItem icon={<SendIcon />} label="Sent" />
+      <NavigationRailItem icon={<DeleteIcon />} label="Trash" />
+    </NavigationRail>
+  );
+}
+
+const fab = (
+  <Fab variant="tertiary" aria-label="Compose"><EditIcon /></Fab>
+);
+
+/* ==========================================================================
+   LABEL VISIBILITY
+   ========================================================================== */
+
+export const Default: Story = {
+  render: (args) => <Rail {...args} header={fab} />,
+};
+
+export const SelectedLabelOnly: Story = {
+  args: { labelVisibility: 'selected' },
+  render: (args) => <Rail {...args} header={fab} />,
+};
+
+export const NoLabels: Story = {
+  args: { labelVisibility: 'none' },
+  render: (args) => <Rail {...args} header={fab} />,
+};
+
+/* ==========================================================================
+   EXPANDED
+   ========================================================================== */
+
+/**
+ * The menu button toggles between the collapsed rail and the expanded,
+ * drawer-width rail.
+ */
+export const Expandable: Story = {
+  render: function Render(args) {
+    const [expanded, setExpanded] = useState(false);
+
+    return (
+      <Rail
+        {...args}
+        expanded={expanded}
+        header={
+          <>
+            <IconButton
+              aria-label={expanded ? 'Collapse navigation' : 'Expand navigation'}
+              aria-expanded={expanded}
+              onClick={() => setExpanded(!expanded)}
+            >
+              {expanded ? <MenuOpenIcon /> : <MenuIcon />}
+            </IconButton>
+            {fab}
+          </>
+        }
+      />
+    );
+  },
+};
@@ -0,0 +1,137 @@
+'use client';
+
+import { Children, cloneElement, forwardRef, isValidElement, useCallback } from 'react';
+import styles from './NavigationRail.module.css';
+import { useKeyboardNavigation, useRipple } from '../../hooks';
+import { cn, createOptionalContext } from '../../utils';
+import type { NavigationBarItemProps } from '../NavigationBar';
+
+/**
+ * Which item labels are shown while the rail is collapsed:
+ * every label, only the active item's, or none. Expanded rails always
+ * show labels.
+ */
+export type NavigationRailLabelVisibility = 'all' | 'selected' | 'none';
+
+interface NavRailContext {
+  activeIndex: number;
+  labelVisibility: NavigationRailLabelVisibility;
+  expanded: boolean;
+}
+
+const [NavRailProvider, useNavRailContext] = createOptionalContext<NavRailContext>('NavRail', {
+  activeIndex: 0,
+  labelVisibility: 'all',
+  expanded: false,
+});
+
+export type NavigationRailProps = {
+  activeIndex?: number;
+  onChange?: (index: number) => void;
+  /** Menu button or `Fab` shown above the items. */
+  header?: React.ReactNode;
+  /** @default 'all' */
+  labelVisibility?: NavigationRailLabelVisibility;
+  /** Widens the rail to show icons and labels side by side, like a drawer. */
+  expanded?: boolean;
+  className?: string;
+  children?: React.ReactNode;
+} & Omit<React.HTMLAttributes<HTMLElement>, 'onChange'>;
+
+export const NavigationRail = forwardRef<HTMLElement, NavigationRailProps>(
+  (
+    {
+      activeIndex = 0,
+      onChange,
+      header,
+      labelVisibility = 'all',
+      expanded = false,
+      className,
+      children,
+      ...props
+    },
+    ref
+  ) => {
+    const { handleKeyDown } = useKeyboardNavigation({
+      selector: `.${styles.item}:not(:disabled)`,
+      orientation: 'vertical',
+    });
+
+    return (
+      <NavRailProvider value={{ activeIndex, labelVisibility, expanded }}>
+        <nav
+          ref={ref}
+          className={cn(styles.rail, expanded && styles.expanded, className)}
+          {...props}
+        >
+          {header && <div className={styles.header}>{header}</div>}
+          <div className={styles.items} onKeyDown={handleKeyDown}>
+            {Children.map(children, (child, i) =>
+              isValidElement<NavigationRailItemProps>(child)
+                ? cloneElement(child, { _index: i, _onChange: onChange })
+                : child
+            )}
+          </div>
+        </nav>
+      </NavRailProvider>
+    );
+  }
+);
+
+NavigationRail.displayName = 'NavigationRail';
+
+/**
+ * Same item model as `NavigationBarItem`, so destinations can move between
+ * the bar and the rail as the window resizes.
+ */
+export type NavigationRailItemProps = NavigationBarItemProps;
+
+export const NavigationRailItem = forwardRef<HTMLButtonElement, NavigationRailItemProps>(
+  ({ icon, activeIcon, label, badge, disabled = false, className, _index = 0, _onChange, onClick, ...props }, ref) => {
+    const { activeIndex, labelVisibility, expanded } = useNavRailContext();
+    const isActive = activeIndex === _index;
+    const showLabel =
+      expanded || labelVisibility === 'all' || (labelVisibility === 'selected' && isActive);
+    const { surfaceRef, handlers, state } = useRipple<HTMLSpanElement>(disabled);
+
+    const handleClick = useCallback(
+      (e: React.MouseEvent<HTMLButtonElement>) => {
+        handlers.onClick(e as React.MouseEvent<HTMLElement>);
+        _onChange?.(_index);
+        onClick?.(e);
+      },
+      [handlers, _onChange, _index, onClick],
+    );
+
+    return (
+      <button
+        ref={ref}
+        type="button"
+        className={cn(styles.item, isActive && styles.active, state.pressed && styles.pressed, className)}
+        disabled={disabled}
+        aria-current={isActive ? 'page' : undefined}
+        aria-label={showLabel ? undefined : label}
+        {...props}
+        onPointerEnter={handlers.onPointerEnter}
+        onPointerLeave={handlers.onPointerLeave}
+        onPointerDown={handlers.onPointerDown}
+        onPointerUp={handlers.onPointerUp}
+        onPointerCancel={handlers.onPointerCancel}
+        onClick={handleClick}
+      >
+        <span className={styles.indicator}>
+          <span ref={surfaceRef} className={styles.ripple} aria-hidden="true" />
+          <span className={styles.stateLayer} aria-hidden="true" />
+          <span className={styles.icon}>
+            {isActive && activeIcon ? activeIcon : icon}
+            {badge && <span className={styles.badge}>{badge}</span>}
+          </span>
+          {expanded && label && <span className={styles.label}>{label}</span>}
+        </span>
+        {!expanded && showLabel && label && <span className={styles.label}>{label}</span>}
+      </button>
+    );
+  },
+);
+
+NavigationRailItem.displayName = 'NavigationRailItem';
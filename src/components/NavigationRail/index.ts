@@ -0,0 +1,2 @@
+export { NavigationRail, NavigationRailItem } from './NavigationRail';
+export type { NavigationRailProps, NavigationRailItemProps, NavigationRailLabelVisibility } from './NavigationRail';
@@ -9,7 +9,8 @@ import {
 } from 'react';
 import styles from './Select.module.css';
 import { useControllableState, useClickOutside } from '../../hooks';
-import { cn, createSafeContext } from '../../utils';
+import { Elevation } from '../../internals';
+import { cn, createSafeContext, densityStyle, type Density } from '../../utils';
 
 export type SelectVariant = 'filled' | 'outlined';
 
@@ -89,6 +90,8 @@ export interface SelectProps {
   leadingIcon?: React.ReactNode;
   placeholder?: string;
   name?: string;
+  /** Density level; inherits the ThemeProvider `density` when unset */
+  density?: Density;
   className?: string;
   children?: React.ReactNode;
 }
@@ -109,6 +112,7 @@ export const Select = forwardRef<HTMLDivElement, SelectProps>(
       leadingIcon,
       placeholder,
       name,
+      density,
       className,
       children,
     },
@@ -269,6 +273,7 @@ export const Select = forwardRef<HTMLDivElement, SelectProps>(
           Boolean(leadingIcon) && styles.withLeadingIcon,
           className
         )}
+        style={densityStyle(density)}
       >
         <div
           ref={fieldRef}
@@ -339,6 +344,7 @@ export const Select = forwardRef<HTMLDivElement, SelectProps>(
         {open && (
           <SelectProvider value={contextValue}>
             <div className={styles.menuWrapper}>
+              <Elevation />
               <ul
                 ref={menuRef}
                 role="listbox"
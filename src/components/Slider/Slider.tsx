@@ -3,6 +3,7 @@
 import { forwardRef, useState, useRef, useCallback, useMemo } from 'react';
 import styles from './Slider.module.css';
 import { cn } from '../../utils';
+import { Elevation } from '../../internals';
 
 function clamp(value: number, min: number, max: number): number {
   return Math.min(Math.max(value, min), max);
@@ -253,7 +254,9 @@ export const Slider = forwardRef<HTMLDivElement, SliderProps>(
               aria-label={ariaProps['aria-label']}
               aria-labelledby={ariaProps['aria-labelledby']}
               onKeyDown={handleKeyDown}
-            />
+            >
+              <Elevation />
+            </div>
           </div>
         </div>
 
@@ -431,7 +434,9 @@ export const RangeSlider = forwardRef<HTMLDivElement, RangeSliderProps>(
               aria-valuemax={end}
               aria-valuenow={start}
               aria-label={`${ariaProps['aria-label'] || 'Range'} start`}
-            />
+            >
+              <Elevation />
+            </div>
           </div>
 
           <div
@@ -451,7 +456,9 @@ export const RangeSlider = forwardRef<HTMLDivElement, RangeSliderProps>(
               aria-valuemax={max}
               aria-valuenow={end}
               aria-label={`${ariaProps['aria-label'] || 'Range'} end`}
-            />
+            >
+              <Elevation />
+            </div>
           </div>
         </div>
 
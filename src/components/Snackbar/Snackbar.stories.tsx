@@ -0,0 +1,107 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { useState } from 'react';
+import { Snackbar } from './Snackbar';
+import { SnackbarProvider } from './SnackbarProvider';
+import { useSnackbar, type SnackbarCloseReason } from './useSnackbar';
+import { Button } from '../Button';
+
+const meta: Meta<typeof Snackbar> = {
+  title: 'Components/Snackbar',
+  component: Snackbar,
+  tags: ['autodocs'],
+  parameters: { layout: 'centered' },
+};
+
+export default meta;
+type Story = StoryObj<typeof Snackbar>;
+
+/* ==========================================================================
+   LAYOUTS
+   ========================================================================== */
+
+export const SingleLine: Story = {
+  args: { message: 'Photo saved' },
+};
+
+export const WithAction: Story = {
+  args: { message: 'Conversation archived', actionLabel: 'Undo' },
+};
+
+export const WithClose: Story = {
+  args: { message: 'Connection restored', actionLabel: 'Retry', showClose: true },
+};
+
+export const TwoLine: Story = {
+  args: {
+    message: 'Your files were uploaded, but two of them were renamed because files with the same names already exist.',
+    actionLabel: 'Review',
+  },
+  decorators: [(Story) => <div style={{ width: 400 }}><Story /></div>],
+};
+
+export const StackedAction: Story = {
+  args: {
+    message: 'Storage is almost full. Free up space to keep syncing.',
+    actionLabel: 'Manage storage',
+    stackedAction: true,
+  },
+  decorators: [(Story) => <div style={{ width: 360 }}><Story /></div>],
+};
+
+/* ==========================================================================
+   QUEUE
+   ========================================================================== */
+
+function QueueDemo() {
+  const { enqueue } = useSnackbar();
+  const [log, setLog] = useState<string[]>([]);
+
+  const show = async (label: string, promise: Promise<SnackbarCloseReason>) => {
+    const reason = await promise;
+    setLog((entries) => [...entries, `${label}: ${reason}`]);
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 12, fontFamily: 'Roboto, sans-serif' }}>
+      <div style={{ display: 'flex', gap: 8 }}>
+        <Button variant="tonal" onClick={() => show('Saved', enqueue({ message: 'Draft saved' }))}>
+          Simple
+        </Button>
+        <Button
+          variant="tonal"
+          onClick={() => show('Archived', enqueue({ message: 'Conversation archived', action: 'Undo' }))}
+        >
+          With action
+        </Button>
+        <Button
+          variant="tonal"
+          onClick={() =>
+            show('Offline', enqueue({ message: 'You are offline', showClose: true, duration: Infinity }))
+          }
+        >
+          Persistent
+        </Button>
+      </div>
+      <ul style={{ margin: 0, paddingLeft: 20, color: 'var(--md-sys-color-on-surface-variant)' }}>
+        {log.map((entry, i) => (
+          <li key={i}>{entry}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Queued
+ *
+ * `enqueue()` queues snackbars and shows them one at a time. Each promise
+ * resolves with how its snackbar was dismissed; hovering or focusing a
+ * snackbar pauses its timeout, and on touch screens it can be swiped away.
+ */
+export const Queued: Story = {
+  render: () => (
+    <SnackbarProvider>
+      <QueueDemo />
+    </SnackbarProvider>
+  ),
+};
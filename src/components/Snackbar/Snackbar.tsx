@@ -0,0 +1,87 @@
+'use client';
+
+import { forwardRef } from 'react';
+import styles from './Snackbar.module.css';
+import { Elevation } from '../../internals';
+import { cn } from '../../utils';
+
+export type SnackbarProps = {
+  message: React.ReactNode;
+  /** Label of the action button. The button shows only with a label. */
+  actionLabel?: string;
+  onAction?: () => void;
+  /** Shows a close icon button after the action. */
+  showClose?: boolean;
+  onClose?: () => void;
+  /** Accessible label of the close button. @default 'Close' */
+  closeAriaLabel?: string;
+  /** Puts the action below the message, for two-line snackbars with a longer action. */
+  stackedAction?: boolean;
+  className?: string;
+} & Omit<React.HTMLAttributes<HTMLDivElement>, 'children'>;
+
+const CloseIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor">
+    <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+  </svg>
+);
+
+/**
+ * Snackbar
+ *
+ * A short message about an app process, with an optional action and close
+ * button. Usually shown through `useSnackbar().enqueue()`, which queues,
+ * times and announces snackbars; render it directly for custom hosting.
+ *
+ * @see https://m3.material.io/components/snackbar/overview
+ */
+export const Snackbar = forwardRef<HTMLDivElement, SnackbarProps>(
+  (
+    {
+      message,
+      actionLabel,
+      onAction,
+      showClose = false,
+      onClose,
+      closeAriaLabel = 'Close',
+      stackedAction = false,
+      className,
+      ...props
+    },
+    ref
+  ) => {
+    const hasActions = !!actionLabel || showClose;
+
+    return (
+      <div
+        ref={ref}
+        className={cn(styles.snackbar, stackedAction && styles.stacked, className)}
+        {...props}
+      >
+        <Elevation />
+        <div className={styles.message}>{message}</div>
+        {hasActions && (
+          <div className={styles.actions}>
+            {actionLabel && (
+              <button type="button" className={styles.action} onClick={onAction}>
+                {actionLabel}
+              </button>
+            )}
+            {showClose && (
+              <button
+                type="button"
+                className={styles.close}
+                aria-label={closeAriaLabel}
+                onClick={onClose}
+              >
+                <CloseIcon />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+Snackbar.displayName = 'Snackbar';
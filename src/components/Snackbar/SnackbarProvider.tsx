@@ -0,0 +1,234 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import styles from './Snackbar.module.css';
+import { Snackbar } from './Snackbar';
+import {
+  SnackbarContextProvider,
+  type SnackbarCloseReason,
+  type SnackbarOptions,
+} from './useSnackbar';
+import { animate, cn } from '../../utils';
+
+interface QueuedSnackbar {
+  id: number;
+  options: SnackbarOptions;
+  resolve: (reason: SnackbarCloseReason) => void;
+}
+
+const DEFAULT_DURATION = 4000;
+
+/**
+ * Fraction of its width a snackbar must be swiped to be dismissed.
+ */
+const SWIPE_THRESHOLD = 0.35;
+
+/**
+ * Horizontal distance a touch must move before it counts as a swipe
+ * rather than a tap.
+ */
+const SWIPE_SLOP = 8;
+
+interface ActiveSnackbarProps {
+  entry: QueuedSnackbar;
+  closeAriaLabel?: string;
+  onDismissed: (entry: QueuedSnackbar, reason: SnackbarCloseReason) => void;
+}
+
+function ActiveSnackbar({ entry, closeAriaLabel, onDismissed }: ActiveSnackbarProps) {
+  const { message, action, duration = DEFAULT_DURATION, showClose, stackedAction } = entry.options;
+  const ref = useRef<HTMLDivElement>(null);
+  const remainingRef = useRef(duration);
+  const closingRef = useRef(false);
+  const swipeRef = useRef<{ pointerId: number; startX: number; dx: number } | null>(null);
+  const [hovered, setHovered] = useState(false);
+  const [focused, setFocused] = useState(false);
+  const [swiping, setSwiping] = useState(false);
+
+  const close = useCallback(
+    async (reason: SnackbarCloseReason, keyframes: Keyframe[] = [{ opacity: 1 }, { opacity: 0 }]) => {
+      if (closingRef.current) return;
+      closingRef.current = true;
+
+      const element = ref.current;
+      if (element) {
+        try {
+          await animate(element, keyframes, {
+            duration: 'short2',
+            easing: 'emphasized-accelerate',
+            fill: 'forwards',
+          }).finished;
+        } catch {
+          // Animation was cancelled
+        }
+      }
+      onDismissed(entry, reason);
+    },
+    [entry, onDismissed]
+  );
+
+  // Enter
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const animation = animate(
+      element,
+      [
+        { opacity: 0, transform: 'translateY(16px)' },
+        { opacity: 1, transform: 'none' },
+      ],
+      { duration: 'short4', easing: 'emphasized-decelerate' }
+    );
+    return () => animation.cancel();
+  }, []);
+
+  // Time out, pausing while the user is hovering, focused inside or swiping
+  const paused = hovered || focused || swiping;
+  useEffect(() => {
+    if (paused || !Number.isFinite(remainingRef.current)) return;
+    const start = Date.now();
+    const timer = setTimeout(() => close('timeout'), remainingRef.current);
+    return () => {
+      clearTimeout(timer);
+      remainingRef.current -= Date.now() - start;
+    };
+  }, [paused, close]);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === 'mouse' || closingRef.current) return;
+    swipeRef.current = { pointerId: e.pointerId, startX: e.clientX, dx: 0 };
+  }, []);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    const swipe = swipeRef.current;
+    if (!swipe || swipe.pointerId !== e.pointerId) return;
+
+    const element = e.currentTarget;
+    swipe.dx = e.clientX - swipe.startX;
+    if (!swiping) {
+      if (Math.abs(swipe.dx) < SWIPE_SLOP) return;
+      element.setPointerCapture(e.pointerId);
+      setSwiping(true);
+    }
+    element.style.transform = `translateX(${swipe.dx}px)`;
+    element.style.opacity = String(1 - Math.min(Math.abs(swipe.dx) / element.offsetWidth, 1));
+  }, [swiping]);
+
+  const handlePointerEnd = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      const swipe = swipeRef.current;
+      if (!swipe || swipe.pointerId !== e.pointerId) return;
+      swipeRef.current = null;
+      if (!swiping) return;
+      setSwiping(false);
+
+      const element = e.currentTarget;
+      const from = { transform: element.style.transform, opacity: element.style.opacity };
+      element.style.transform = '';
+      element.style.opacity = '';
+
+      if (Math.abs(swipe.dx) > element.offsetWidth * SWIPE_THRESHOLD) {
+        const to = `translateX(${Math.sign(swipe.dx) * element.offsetWidth}px)`;
+        close('swipe', [from, { transform: to, opacity: 0 }]);
+      } else {
+        animate(element, [from, { transform: 'none', opacity: 1 }], {
+          duration: 'short4',
+          easing: 'standard',
+        });
+      }
+    },
+    [swiping, close]
+  );
+
+  const handleBlur = useCallback((e: React.FocusEvent<HTMLDivElement>) => {
+    setFocused(e.currentTarget.contains(e.relatedTarget));
+  }, []);
+
+  return (
+    <Snackbar
+      ref={ref}
+      message={message}
+      actionLabel={action}
+      onAction={() => close('action')}
+      showClose={showClose}
+      onClose={() => close('close')}
+      closeAriaLabel={closeAriaLabel}
+      stackedAction={stackedAction}
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+      onFocus={() => setFocused(true)}
+      onBlur={handleBlur}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerEnd}
+      onPointerCancel={handlePointerEnd}
+    />
+  );
+}
+
+export interface SnackbarProviderProps {
+  children?: React.ReactNode;
+  /** Class name of the fixed element snackbars are shown in. */
+  className?: string;
+  /** Accessible label of close buttons. @default 'Close' */
+  closeAriaLabel?: string;
+}
+
+/**
+ * Snackbar Provider
+ *
+ * Shows snackbars queued with `useSnackbar().enqueue()` one at a time at
+ * the bottom of the viewport, announced through a polite live region.
+ *
+ * @example
+ * ```tsx
+ * function ArchiveButton() {
+ *   const { enqueue } = useSnackbar();
+ *
+ *   const handleArchive = async () => {
+ *     archive();
+ *     const reason = await enqueue({ message: 'Conversation archived', action: 'Undo' });
+ *     if (reason === 'action') unarchive();
+ *   };
+ *
+ *   return <Button onClick={handleArchive}>Archive</Button>;
+ * }
+ * ```
+ */
+export function SnackbarProvider({ children, className, closeAriaLabel }: SnackbarProviderProps) {
+  const [queue, setQueue] = useState<QueuedSnackbar[]>([]);
+  const nextIdRef = useRef(0);
+
+  const enqueue = useCallback(
+    (options: SnackbarOptions) =>
+      new Promise<SnackbarCloseReason>((resolve) => {
+        const entry = { id: nextIdRef.current++, options, resolve };
+        setQueue((current) => [...current, entry]);
+      }),
+    []
+  );
+
+  const handleDismissed = useCallback((entry: QueuedSnackbar, reason: SnackbarCloseReason) => {
+    entry.resolve(reason);
+    setQueue((current) => current.filter((queued) => queued !== entry));
+  }, []);
+
+  const value = useMemo(() => ({ enqueue }), [enqueue]);
+  const active = queue[0];
+
+  return (
+    <SnackbarContextProvider value={value}>
+      {children}
+      <div className={cn(styles.host, className)} role="status" aria-live="polite">
+        {active && (
+          <ActiveSnackbar
+            key={active.id}
+            entry={active}
+            closeAriaLabel={closeAriaLabel}
+            onDismissed={handleDismissed}
+          />
+        )}
+      </div>
+    </SnackbarContextProvider>
+  );
+}
@@ -0,0 +1,6 @@
+export { Snackbar } from './Snackbar';
+export type { SnackbarProps } from './Snackbar';
+export { SnackbarProvider } from './SnackbarProvider';
+export type { SnackbarProviderProps } from './SnackbarProvider';
+export { useSnackbar } from './useSnackbar';
+export type { SnackbarOptions, SnackbarCloseReason, SnackbarContextValue } from './useSnackbar';
@@ -0,0 +1,38 @@
+'use client';
+
+import { createSafeContext } from '../../utils';
+
+/**
+ * How a snackbar was dismissed: it timed out, its action or close button
+ * was clicked, or it was swiped away.
+ */
+export type SnackbarCloseReason = 'timeout' | 'action' | 'swipe' | 'close';
+
+export interface SnackbarOptions {
+  message: React.ReactNode;
+  /** Label of the action button. Clicking it resolves with `'action'`. */
+  action?: string;
+  /**
+   * Milliseconds the snackbar stays once shown, not counting time spent
+   * hovered or focused. `Infinity` keeps it until it is dismissed.
+   * @default 4000
+   */
+  duration?: number;
+  /** Shows a close icon button. */
+  showClose?: boolean;
+  /** Puts the action below the message. */
+  stackedAction?: boolean;
+}
+
+export interface SnackbarContextValue {
+  /**
+   * Queue a snackbar. Snackbars show one at a time, in order. Resolves
+   * with how the snackbar was dismissed.
+   */
+  enqueue: (options: SnackbarOptions) => Promise<SnackbarCloseReason>;
+}
+
+/**
+ * `useSnackbar()` queues snackbars from anywhere under a `SnackbarProvider`.
+ */
+export const [SnackbarContextProvider, useSnackbar] = createSafeContext<SnackbarContextValue>('Snackbar');
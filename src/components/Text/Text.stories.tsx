@@ -0,0 +1,146 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { Text, type TextVariant } from './Text';
+
+/**
+ * Material Design 3 Text Component
+ *
+ * Renders text in one of the 15 type scale roles.
+ *
+ * ## Features
+ * - Display, headline, title, body and label roles in three sizes
+ * - Semantic element per role by default (h1, h2, h3, p, span)
+ * - Polymorphic `as` prop to override the element
+ * - Reads `--md-sys-typescale-*` tokens, so ThemeProvider `brandFont` /
+ *   `plainFont` apply automatically
+ *
+ * @see https://m3.material.io/styles/typography/type-scale-tokens
+ */
+const meta = {
+  title: 'Components/Text',
+  component: Text,
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+Text applies a role of the M3 type scale.
+
+### Default elements
+- **display-\\***: \`<h1>\`
+- **headline-\\***: \`<h2>\`
+- **title-\\***: \`<h3>\`
+- **body-\\***: \`<p>\`
+- **label-\\***: \`<span>\`
+
+Use \`as\` when the document outline needs a different element than the visual role.
+        `,
+      },
+    },
+  },
+  tags: ['autodocs'],
+  argTypes: {
+    variant: {
+      control: 'select',
+      options: [
+        'display-large',
+        'display-medium',
+        'display-small',
+        'headline-large',
+        'headline-medium',
+        'headline-small',
+        'title-large',
+        'title-medium',
+        'title-small',
+        'body-large',
+        'body-medium',
+        'body-small',
+        'label-large',
+        'label-medium',
+        'label-small',
+      ],
+      description: 'Type scale role',
+    },
+    as: {
+      control: 'text',
+      description: 'Element to render instead of the default for the variant',
+    },
+  },
+} satisfies Meta<typeof Text>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/* ==========================================================================
+   DEFAULT
+   ========================================================================== */
+
+export const Default: Story = {
+  args: {
+    variant: 'body-medium',
+    children: 'The quick brown fox jumps over the lazy dog',
+  },
+};
+
+/* ==========================================================================
+   TYPE SCALE
+   ========================================================================== */
+
+const VARIANTS: TextVariant[] = [
+  'display-large',
+  'display-medium',
+  'display-small',
+  'headline-large',
+  'headline-medium',
+  'headline-small',
+  'title-large',
+  'title-medium',
+  'title-small',
+  'body-large',
+  'body-medium',
+  'body-small',
+  'label-large',
+  'label-medium',
+  'label-small',
+];
+
+/**
+ * Every role of the type scale.
+ */
+export const TypeScale: Story = {
+  render: () => (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '16px',
+        color: 'var(--md-sys-color-on-surface, #1d1b20)',
+      }}
+    >
+      {VARIANTS.map((variant) => (
+        <Text key={variant} variant={variant}>
+          {variant}
+        </Text>
+      ))}
+    </div>
+  ),
+};
+
+/* ==========================================================================
+   POLYMORPHIC
+   ========================================================================== */
+
+/**
+ * A title-styled `<h1>` and a label-styled link.
+ */
+export const CustomElement: Story = {
+  render: () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+      <Text variant="title-large" as="h1">
+        Page title styled as title-large
+      </Text>
+      <Text variant="label-large" as="a" href="#text">
+        Label-styled link
+      </Text>
+    </div>
+  ),
+};
@@ -0,0 +1,114 @@
+'use client';
+
+import { forwardRef, type ElementType, type ForwardedRef, type ReactElement, type Ref } from 'react';
+import styles from './Text.module.css';
+import { cn, type PolymorphicComponentProps } from '../../utils';
+
+/**
+ * Material Design 3 Text Component
+ *
+ * Applies a role of the M3 type scale (`--md-sys-typescale-*`) and renders
+ * the matching semantic element unless `as` says otherwise.
+ *
+ * @see https://m3.material.io/styles/typography/type-scale-tokens
+ */
+
+export type TextVariant =
+  | 'display-large'
+  | 'display-medium'
+  | 'display-small'
+  | 'headline-large'
+  | 'headline-medium'
+  | 'headline-small'
+  | 'title-large'
+  | 'title-medium'
+  | 'title-small'
+  | 'body-large'
+  | 'body-medium'
+  | 'body-small'
+  | 'label-large'
+  | 'label-medium'
+  | 'label-small';
+
+const DEFAULT_ELEMENTS: Record<TextVariant, ElementType> = {
+  'display-large': 'h1',
+  'display-medium': 'h1',
+  'display-small': 'h1',
+  'headline-large': 'h2',
+  'headline-medium': 'h2',
+  'headline-small': 'h2',
+  'title-large': 'h3',
+  'title-medium': 'h3',
+  'title-small': 'h3',
+  'body-large': 'p',
+  'body-medium': 'p',
+  'body-small': 'p',
+  'label-large': 'span',
+  'label-medium': 'span',
+  'label-small': 'span',
+};
+
+const VARIANT_CLASSES: Record<TextVariant, string> = {
+  'display-large': styles.displayLarge,
+  'display-medium': styles.displayMedium,
+  'display-small': styles.displaySmall,
+  'headline-large': styles.headlineLarge,
+  'headline-medium': styles.headlineMedium,
+  'headline-small': styles.headlineSmall,
+  'title-large': styles.titleLarge,
+  'title-medium': styles.titleMedium,
+  'title-small': styles.titleSmall,
+  'body-large': styles.bodyLarge,
+  'body-medium': styles.bodyMedium,
+  'body-small': styles.bodySmall,
+  'label-large': styles.labelLarge,
+  'label-medium': styles.labelMedium,
+  'label-small': styles.labelSmall,
+};
+
+type TextOwnProps = {
+  /**
+   * Type scale role.
+   * @default 'body-medium'
+   */
+  variant?: TextVariant;
+
+  /**
+   * Additional CSS class names.
+   */
+  className?: string;
+};
+
+export type TextProps<C extends ElementType = 'p'> = PolymorphicComponentProps<C, TextOwnProps>;
+
+type TextComponent = (<C extends ElementType = 'p'>(
+  props: TextProps<C> & { ref?: Ref<Element> }
+) => ReactElement | null) & { displayName?: string };
+
+/**
+ * M3 Text Component
+ *
+ * @example
+ * ```tsx
+ * <Text variant="headline-small">Settings</Text>       // <h2>
+ * <Text variant="body-large">Manage your account</Text> // <p>
+ * <Text variant="title-medium" as="h1">Page title</Text>
+ * ```
+ */
+export const Text = forwardRef(
+  (
+    { as, variant = 'body-medium', className, ...props }: TextProps<ElementType>,
+    ref: ForwardedRef<Element>
+  ) => {
+    const Component = as ?? DEFAULT_ELEMENTS[variant];
+    return (
+      <Component
+        ref={ref}
+        className={cn(styles.text, VARIANT_CLASSES[variant], className)}
+        {...props}
+      />
+    );
+  }
+) as TextComponent;
+
+Text.displayName = 'Text';
@@ -10,7 +10,7 @@ import {
 } from 'react';
 import styles from './TextField.module.css';
 import { useControllableState } from '../../hooks';
-import { cn } from '../../utils';
+import { cn, densityStyle, type Density } from '../../utils';
 
 export type TextFieldVariant = 'filled' | 'outlined';
 export type TextFieldType =
@@ -47,6 +47,8 @@ export interface TextFieldProps
   trailingIcon?: React.ReactNode;
   /** Number of rows for textarea */
   rows?: number;
+  /** Density level; inherits the ThemeProvider `density` when unset */
+  density?: Density;
   /** Additional class name */
   className?: string;
 }
@@ -72,6 +74,7 @@ export const TextField = forwardRef<TextFieldRef, TextFieldProps>(
       leadingIcon,
       trailingIcon,
       rows = 2,
+      density,
       disabled = false,
       required = false,
       value,
@@ -151,7 +154,7 @@ export const TextField = forwardRef<TextFieldRef, TextFieldProps>(
     );
 
     return (
-      <div className={styles.textField}>
+      <div className={styles.textField} style={densityStyle(density)}>
         <div className={fieldClasses}>
           <div className={styles.containerOverflow}>
             {variant === 'filled' && (
@@ -1,8 +1,17 @@
 import type { Meta, StoryObj } from '@storybook/react';
 import { ThemeProvider, useTheme } from './ThemeProvider';
 import type { ColorScheme, ThemeMode } from './ThemeProvider';
+import { SCHEME_VARIANTS } from './dynamicColor';
+import { getColorSchemes, registerColorScheme } from './colorSchemes';
 import { Button } from '../Button';
 import { Checkbox } from '../Checkbox';
+import { List, ListItem } from '../List';
+import { Badge } from '../Badge';
+import { FilterChip } from '../Chip';
+import { Card } from '../Card';
+import { Fab } from '../Fab';
+import { TextField } from '../TextField';
+import { Text } from '../Text';
 import { useState } from 'react';
 
 /**
@@ -37,13 +46,85 @@ const meta: Meta<typeof ThemeProvider> = {
         defaultValue: { summary: 'default' },
       },
     },
+    seedColor: {
+      control: 'color',
+      description: 'Hex seed color used to generate the scheme at runtime',
+    },
+    brandFont: {
+      control: 'text',
+      description: 'Font family for display, headline and title-large roles',
+    },
+    plainFont: {
+      control: 'text',
+      description: 'Font family for the remaining title, body and label roles',
+    },
+    shape: {
+      control: 'object',
+      description: 'Corner radius multiplier, or explicit radii per corner size',
+    },
+    cornerFamily: {
+      control: { type: 'select' },
+      options: ['rounded', 'cut'],
+      description: 'Corner family applied to component shapes',
+      table: {
+        defaultValue: { summary: 'rounded' },
+      },
+    },
+    density: {
+      control: { type: 'select' },
+      options: [0, -1, -2, -3],
+      description: 'Default density level of form and list components',
+      table: {
+        defaultValue: { summary: '0' },
+      },
+    },
+    reducedMotion: {
+      control: { type: 'select' },
+      options: ['system', true, false],
+      description: 'Reduce motion, keep full motion, or follow prefers-reduced-motion',
+      table: {
+        defaultValue: { summary: 'system' },
+      },
+    },
+    defaultVariant: {
+      control: { type: 'select' },
+      options: SCHEME_VARIANTS,
+      description: 'Initial dynamic-scheme variant',
+      table: {
+        defaultValue: { summary: 'tonal-spot' },
+      },
+    },
+    defaultContrast: {
+      control: { type: 'select' },
+      options: ['standard', 'medium', 'high', 'system'],
+      description: 'Initial contrast level',
+      table: {
+        defaultValue: { summary: 'standard' },
+      },
+    },
+    scope: {
+      control: { type: 'select' },
+      options: ['document', 'subtree'],
+      description: 'Apply the theme to the document root or to a wrapper element',
+      table: {
+        defaultValue: { summary: 'document' },
+      },
+    },
     persist: {
       control: 'boolean',
-      description: 'Whether to persist settings to localStorage',
+      description: 'Whether to persist settings',
       table: {
         defaultValue: { summary: 'true' },
       },
     },
+    storage: {
+      control: { type: 'select' },
+      options: ['localStorage', 'sessionStorage', 'cookie', 'memory'],
+      description: 'Where settings are persisted; also accepts a custom adapter',
+      table: {
+        defaultValue: { summary: 'localStorage' },
+      },
+    },
   },
 };
 
@@ -360,6 +441,541 @@ export const AllColorSchemesDark: Story = {
   },
 };
 
+/* ==========================================================================
+   RUNTIME SEED COLOR
+   ========================================================================== */
+
+function SeedColorControls() {
+  const { seedColor, setSeedColor } = useTheme();
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        marginBottom: '16px',
+        fontSize: '14px',
+        color: 'var(--md-sys-color-on-surface)',
+      }}
+    >
+      <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        Seed
+        <input
+          type="color"
+          value={seedColor ?? '#6750a4'}
+          onChange={(e) => setSeedColor(e.target.value)}
+        />
+      </label>
+      <Button variant="text" onClick={() => setSeedColor(null)}>
+        Reset
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Runtime Seed Color
+ *
+ * Generates the full color role set in the browser from any seed color,
+ * e.g. a tenant's brand color.
+ */
+export const RuntimeSeedColor: Story = {
+  render: () => (
+    <ThemeProvider defaultMode="light" seedColor="#0B57D0" persist={false}>
+      <div
+        style={{
+          padding: '24px',
+          backgroundColor: 'var(--md-sys-color-background)',
+          borderRadius: '16px',
+          fontFamily: 'Roboto, sans-serif',
+        }}
+      >
+        <SeedColorControls />
+        <ComponentShowcase />
+      </div>
+    </ThemeProvider>
+  ),
+};
+
+/* ==========================================================================
+   SEED IMAGE
+   ========================================================================== */
+
+/**
+ * Stand-in album covers: SVG gradients as data URLs, so they can be read
+ * back from a canvas without CORS.
+ */
+const COVERS = [
+  ['Dusk', '#f4a261', '#6d2e46'],
+  ['Lagoon', '#2a9d8f', '#264653'],
+  ['Meadow', '#a7c957', '#386641'],
+].map(([title, from, to]) => ({
+  title,
+  src: `data:image/svg+xml,${encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="96" height="96"><defs><linearGradient id="g" x2="1" y2="1"><stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/></linearGradient></defs><rect width="96" height="96" fill="url(#g)"/></svg>`
+  )}`,
+}));
+
+function SeedImagePlayer() {
+  const [cover, setCover] = useState(COVERS[0]);
+
+  return (
+    <ThemeProvider scope="subtree" defaultMode="light" seedImage={cover.src} persist={false}>
+      <div
+        style={{
+          padding: '24px',
+          backgroundColor: 'var(--md-sys-color-surface-container)',
+          color: 'var(--md-sys-color-on-surface)',
+          borderRadius: '16px',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '16px',
+          width: '320px',
+        }}
+      >
+        <div style={{ display: 'flex', gap: '16px', alignItems: 'center' }}>
+          <img src={cover.src} alt="" width={96} height={96} style={{ borderRadius: '12px' }} />
+          <div>
+            <Text variant="title-large">{cover.title}</Text>
+            <Text variant="body-medium" style={{ color: 'var(--md-sys-color-on-surface-variant)' }}>
+              Seed from cover art
+            </Text>
+          </div>
+        </div>
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+          <Fab aria-label="Play">▶</Fab>
+          {COVERS.map((c) => (
+            <FilterChip key={c.title} label={c.title} selected={c === cover} onChange={() => setCover(c)} />
+          ))}
+        </div>
+      </div>
+    </ThemeProvider>
+  );
+}
+
+/**
+ * Seed Image
+ *
+ * `seedImage` quantizes and scores an image's pixels to pick the seed,
+ * here retheming a player view from the current cover.
+ */
+export const SeedImage: Story = {
+  render: () => <SeedImagePlayer />,
+};
+
+/**
+ * Scheme Variants
+ *
+ * The same seed rendered with every dynamic-scheme variant.
+ */
+export const SchemeVariants: Story = {
+  render: () => (
+    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '16px' }}>
+      {SCHEME_VARIANTS.map((variant) => (
+        <ThemeProvider key={variant} defaultMode="light" defaultVariant={variant} persist={false}>
+          <div
+            style={{
+              padding: '16px',
+              backgroundColor: 'var(--md-sys-color-surface-container)',
+              borderRadius: '12px',
+              fontFamily: 'Roboto, sans-serif',
+            }}
+          >
+            <div
+              style={{
+                marginBottom: '12px',
+                fontSize: '14px',
+                fontWeight: 500,
+                color: 'var(--md-sys-color-on-surface)',
+              }}
+            >
+              {variant}
+            </div>
+            <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+              <Button variant="filled">Filled</Button>
+              <Button variant="tonal">Tonal</Button>
+            </div>
+          </div>
+        </ThemeProvider>
+      ))}
+    </div>
+  ),
+};
+
+/**
+ * Contrast Levels
+ *
+ * Standard, medium and high contrast role values for the same scheme.
+ */
+export const ContrastLevels: Story = {
+  render: () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+      {(['standard', 'medium', 'high'] as const).map((level) => (
+        <ThemeProvider key={level} defaultMode="light" defaultContrast={level} persist={false}>
+          <div
+            style={{
+              padding: '16px',
+              backgroundColor: 'var(--md-sys-color-surface)',
+              borderRadius: '12px',
+              fontFamily: 'Roboto, sans-serif',
+            }}
+          >
+            <div
+              style={{
+                marginBottom: '12px',
+                fontSize: '14px',
+                fontWeight: 500,
+                color: 'var(--md-sys-color-on-surface-variant)',
+              }}
+            >
+              {level.charAt(0).toUpperCase() + level.slice(1)} contrast
+            </div>
+            <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+              <Button variant="filled">Filled</Button>
+              <Button variant="outlined">Outlined</Button>
+              <Button variant="tonal">Tonal</Button>
+              <Checkbox checked />
+            </div>
+          </div>
+        </ThemeProvider>
+      ))}
+    </div>
+  ),
+};
+
+/**
+ * Nested Providers
+ *
+ * A subtree-scoped provider renders a dark card inside a light page
+ * without touching the document root.
+ */
+export const NestedProviders: Story = {
+  render: () => (
+    <ThemeProvider defaultMode="light" persist={false}>
+      <div
+        style={{
+          padding: '24px',
+          backgroundColor: 'var(--md-sys-color-background)',
+          borderRadius: '16px',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '16px',
+        }}
+      >
+        <ComponentShowcase />
+        <ThemeProvider scope="subtree" defaultMode="dark" defaultColorScheme="teal">
+          <ThemeControls />
+        </ThemeProvider>
+      </div>
+    </ThemeProvider>
+  ),
+};
+
+const CUSTOM_COLORS = {
+  success: '#386A20',
+  warning: '#7C5800',
+  info: { value: '#0061A4', harmonize: false },
+};
+
+/**
+ * Custom Colors
+ *
+ * Named colors harmonized toward the seed, targeted through the
+ * `color` prop of Button, Chip and Badge.
+ */
+export const CustomColors: Story = {
+  render: () => (
+    <ThemeProvider scope="subtree" customColors={CUSTOM_COLORS} persist={false}>
+      <div
+        style={{
+          padding: '24px',
+          backgroundColor: 'var(--md-sys-color-surface)',
+          borderRadius: '16px',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '16px',
+        }}
+      >
+        {(['success', 'warning', 'info', 'error'] as const).map((color) => (
+          <div key={color} style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+            <Button variant="filled" color={color}>
+              {color}
+            </Button>
+            <Button variant="outlined" color={color}>
+              Outlined
+            </Button>
+            <Button variant="tonal" color={color}>
+              Tonal
+            </Button>
+            <FilterChip label="Selected" selected color={color} />
+            <Badge value={3} color={color} />
+          </div>
+        ))}
+      </div>
+    </ThemeProvider>
+  ),
+};
+
+/**
+ * Typefaces
+ *
+ * `brandFont` and `plainFont` rewrite the typescale font families, so
+ * headings and body copy pick up the new faces without extra CSS.
+ */
+export const Typefaces: Story = {
+  render: () => (
+    <ThemeProvider
+      scope="subtree"
+      brandFont="Georgia, serif"
+      plainFont="'Helvetica Neue', Arial, sans-serif"
+      persist={false}
+    >
+      <div
+        style={{
+          padding: '24px',
+          backgroundColor: 'var(--md-sys-color-surface)',
+          color: 'var(--md-sys-color-on-surface)',
+          borderRadius: '16px',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '8px',
+          maxWidth: '400px',
+        }}
+      >
+        <Text variant="headline-medium">Brand headline</Text>
+        <Text variant="title-medium">Plain title</Text>
+        <Text variant="body-medium">
+          Body copy uses the plain typeface, while display, headline and large
+          title roles use the brand typeface.
+        </Text>
+      </div>
+    </ThemeProvider>
+  ),
+};
+
+function ShapeSample() {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '16px', width: '280px' }}>
+      <Card variant="outlined" style={{ padding: '16px' }}>
+        Outlined card
+      </Card>
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+        <Button variant="filled">Button</Button>
+        <FilterChip label="Chip" selected />
+        <Fab aria-label="Add">+</Fab>
+      </div>
+      <TextField variant="outlined" label="Field" />
+    </div>
+  );
+}
+
+/**
+ * Shape
+ *
+ * `shape` scales or replaces the corner radii and `cornerFamily="cut"`
+ * bevels the corners. Cut corners need CSS `corner-shape` support and
+ * fall back to rounded corners elsewhere.
+ */
+export const Shape: Story = {
+  render: () => (
+    <div style={{ display: 'flex', gap: '16px' }}>
+      {[
+        { title: 'Default', shape: undefined, cornerFamily: undefined },
+        { title: 'shape={0.5}', shape: 0.5, cornerFamily: undefined },
+        { title: 'cornerFamily="cut"', shape: { small: 6, medium: 10 }, cornerFamily: 'cut' as const },
+      ].map(({ title, ...shapeProps }) => (
+        <ThemeProvider key={title} scope="subtree" persist={false} {...shapeProps}>
+          <div
+            style={{
+              padding: '24px',
+              backgroundColor: 'var(--md-sys-color-surface)',
+              color: 'var(--md-sys-color-on-surface)',
+              borderRadius: '16px',
+            }}
+          >
+            <Text variant="title-small" style={{ marginBottom: '16px' }}>
+              {title}
+            </Text>
+            <ShapeSample />
+          </div>
+        </ThemeProvider>
+      ))}
+    </div>
+  ),
+};
+
+/**
+ * Density
+ *
+ * `density` shrinks container heights by 4px per level for compact,
+ * data-heavy screens. Touch targets stay 48px.
+ */
+export const Density: Story = {
+  render: () => (
+    <div style={{ display: 'flex', gap: '16px', alignItems: 'flex-start' }}>
+      {([0, -3] as const).map((density) => (
+        <ThemeProvider key={density} scope="subtree" density={density} persist={false}>
+          <div
+            style={{
+              padding: '24px',
+              backgroundColor: 'var(--md-sys-color-surface)',
+              color: 'var(--md-sys-color-on-surface)',
+              borderRadius: '16px',
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '16px',
+              width: '280px',
+            }}
+          >
+            <Text variant="title-small">density={density}</Text>
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+              <Button variant="filled">Save</Button>
+              <FilterChip label="Active" selected />
+              <Checkbox aria-label="Select row" />
+            </div>
+            <TextField variant="outlined" label="Name" />
+            <List>
+              <ListItem type="button" headline="First row" />
+              <ListItem type="button" headline="Second row" />
+            </List>
+          </div>
+        </ThemeProvider>
+      ))}
+    </div>
+  ),
+};
+
+/**
+ * Reduced Motion
+ *
+ * `reducedMotion` zeroes the motion duration tokens and the animations
+ * run through `animate()`, such as ripples and checkbox marks.
+ */
+export const ReducedMotion: Story = {
+  render: () => (
+    <div style={{ display: 'flex', gap: '16px' }}>
+      {[false, true].map((reducedMotion) => (
+        <ThemeProvider key={String(reducedMotion)} scope="subtree" reducedMotion={reducedMotion} persist={false}>
+          <div
+            style={{
+              padding: '24px',
+              backgroundColor: 'var(--md-sys-color-surface)',
+              color: 'var(--md-sys-color-on-surface)',
+              borderRadius: '16px',
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '16px',
+            }}
+          >
+            <Text variant="title-small">reducedMotion={String(reducedMotion)}</Text>
+            <Button variant="filled">Press me</Button>
+            <Checkbox aria-label="Toggle me" />
+          </div>
+        </ThemeProvider>
+      ))}
+    </div>
+  ),
+};
+
+/* ==========================================================================
+   TRANSITIONS
+   ========================================================================== */
+
+function TransitionControls() {
+  const { resolvedMode, toggleMode, colorScheme, setColorScheme } = useTheme();
+  const schemes: ColorScheme[] = ['default', 'teal', 'orange'];
+
+  return (
+    <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '16px' }}>
+      <Button variant="filled" onClick={toggleMode}>
+        {resolvedMode === 'dark' ? 'Light mode' : 'Dark mode'}
+      </Button>
+      {schemes.map((scheme) => (
+        <Button
+          key={scheme}
+          variant={scheme === colorScheme ? 'tonal' : 'text'}
+          onClick={(e) => setColorScheme(scheme, e)}
+        >
+          {scheme}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Transitions
+ *
+ * `transition="circle"` reveals the new mode or scheme from the button
+ * that changed it; `"fade"` cross-fades. Reduced motion turns both off.
+ */
+export const Transitions: Story = {
+  render: () => (
+    <ThemeProvider defaultMode="light" transition="circle" persist={false}>
+      <div
+        style={{
+          padding: '24px',
+          backgroundColor: 'var(--md-sys-color-background)',
+          borderRadius: '16px',
+          fontFamily: 'Roboto, sans-serif',
+        }}
+      >
+        <TransitionControls />
+        <ComponentShowcase />
+      </div>
+    </ThemeProvider>
+  ),
+};
+
+/* ==========================================================================
+   REGISTERED SCHEMES
+   ========================================================================== */
+
+registerColorScheme('acme', '#FF5A00');
+registerColorScheme('forest', '#2E5E3A', { variant: 'vibrant' });
+
+function RegisteredSchemeControls() {
+  const { colorScheme, setColorScheme } = useTheme();
+
+  return (
+    <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginBottom: '16px' }}>
+      {getColorSchemes().map((scheme) => (
+        <FilterChip
+          key={scheme}
+          label={scheme}
+          selected={scheme === colorScheme}
+          onChange={() => setColorScheme(scheme)}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Registered Schemes
+ *
+ * `registerColorScheme` adds `acme` and `forest` at runtime, next to the
+ * built-in schemes. Augment `ColorSchemeNames` to type-check their names.
+ */
+export const RegisteredSchemes: Story = {
+  render: () => (
+    <ThemeProvider defaultMode="light" defaultColorScheme="default" persist={false}>
+      <div
+        style={{
+          padding: '24px',
+          backgroundColor: 'var(--md-sys-color-background)',
+          borderRadius: '16px',
+          fontFamily: 'Roboto, sans-serif',
+        }}
+      >
+        <RegisteredSchemeControls />
+        <ComponentShowcase />
+      </div>
+    </ThemeProvider>
+  ),
+};
+
 /**
  * System Preference
  *
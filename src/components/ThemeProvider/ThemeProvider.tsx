@@ -5,9 +5,45 @@ import {
   useContext,
   useCallback,
   useEffect,
+  useRef,
   useState,
   useMemo,
+  useSyncExternalStore,
 } from 'react';
+import { flushSync } from 'react-dom';
+import {
+  applyColorRoles,
+  generateColorScheme,
+  generateCustomColors,
+  isCustomColor,
+  isHexColor,
+  COLOR_SCHEME_SEEDS,
+  DEFAULT_CONTRAST_LEVEL,
+  DEFAULT_SCHEME_VARIANT,
+  type ContrastLevel,
+  type CustomColors,
+  type SchemeVariant,
+} from './dynamicColor';
+import {
+  readStoredValue,
+  resolveThemeStorage,
+  writeStoredValue,
+  THEME_SETTING_VALIDATORS,
+  THEME_STORAGE_KEYS,
+  type ThemeStorageAdapter,
+  type ThemeStorageType,
+} from './themeStorage';
+import { getColorSchemeOptions, getColorSchemeSeed, subscribeColorSchemes } from './colorSchemes';
+import { sourceColorFromImage, type ImageSource } from './imageColor';
+import { shapeTokens, type CornerFamily, type ShapeScale } from './shape';
+import { typescaleFonts } from './typography';
+import {
+  startThemeTransition,
+  type ThemeTransition,
+  type ThemeTransitionOrigin,
+} from './themeTransition';
+import { useControllableState } from '../../hooks';
+import type { Density } from '../../utils';
 
 /**
  * @license
@@ -19,11 +55,38 @@ import {
  * Material Design 3 Theme Provider
  *
  * Provides theme context for managing light/dark mode and color schemes.
- * Supports system preference detection and localStorage persistence.
+ * Supports system preference detection and pluggable persistence that stays
+ * in sync across tabs.
+ * Any seed color can be turned into a full scheme at runtime via `seedColor`.
+ * Providers can be nested to theme a subtree independently of the page.
  */
 
 export type ThemeMode = 'light' | 'dark' | 'system';
-export type ColorScheme = 'default' | 'teal' | 'blue' | 'green' | 'orange' | 'pink';
+
+/**
+ * Names of the available color schemes. Augment it with schemes added by
+ * `registerColorScheme` so they type-check as a `ColorScheme`:
+ *
+ * ```ts
+ * declare module 'react-material-3-pure' {
+ *   interface ColorSchemeNames {
+ *     acme: true;
+ *   }
+ * }
+ * ```
+ */
+export interface ColorSchemeNames {
+  default: true;
+  teal: true;
+  blue: true;
+  green: true;
+  orange: true;
+  pink: true;
+}
+
+export type ColorScheme = keyof ColorSchemeNames;
+export type ThemeContrast = ContrastLevel | 'system';
+export type ThemeScope = 'document' | 'subtree';
 
 export interface ThemeContextValue {
   /**
@@ -44,45 +107,227 @@ export interface ThemeContextValue {
   colorScheme: ColorScheme;
 
   /**
-   * Set the theme mode.
+   * Current runtime seed color, including one extracted from `seedImage`,
+   * or null when the pre-generated `colorScheme` is in effect.
+   */
+  seedColor: string | null;
+
+  /**
+   * Current dynamic-scheme variant.
+   */
+  variant: SchemeVariant;
+
+  /**
+   * Current contrast setting.
+   * 'system' follows the user's `prefers-contrast` preference.
+   */
+  contrast: ThemeContrast;
+
+  /**
+   * The actual resolved contrast level.
+   * When contrast is 'system', this is 'high' if the user prefers more contrast.
+   */
+  resolvedContrast: ContrastLevel;
+
+  /**
+   * Set the theme mode. `origin` is where a circular `transition` starts.
    */
-  setMode: (mode: ThemeMode) => void;
+  setMode: (mode: ThemeMode, origin?: ThemeTransitionOrigin) => void;
 
   /**
-   * Set the color scheme.
+   * Set the color scheme. `origin` is where a circular `transition` starts.
    */
-  setColorScheme: (scheme: ColorScheme) => void;
+  setColorScheme: (scheme: ColorScheme, origin?: ThemeTransitionOrigin) => void;
+
+  /**
+   * Generate and apply a scheme from any hex seed color.
+   * Pass null to fall back to the current `colorScheme`.
+   * @throws If `color` is not a valid hex color.
+   */
+  setSeedColor: (color: string | null) => void;
+
+  /**
+   * Set the dynamic-scheme variant.
+   */
+  setVariant: (variant: SchemeVariant) => void;
+
+  /**
+   * Set the contrast level.
+   */
+  setContrast: (contrast: ThemeContrast) => void;
 
   /**
    * Toggle between light and dark modes.
    * If current mode is 'system', switches to the opposite of the current resolved mode.
+   * Pass the click event (`onClick={toggleMode}`) or an element to start a
+   * circular `transition` from it.
    */
-  toggleMode: () => void;
+  toggleMode: (origin?: ThemeTransitionOrigin) => void;
 }
 
 const ThemeContext = createContext<ThemeContextValue | null>(null);
 
 export interface ThemeProviderProps {
   /**
-   * Initial theme mode.
+   * Controlled theme mode. Use with `onModeChange` when the mode lives in
+   * your own state or store.
+   */
+  mode?: ThemeMode;
+
+  /**
+   * Initial theme mode when uncontrolled.
    * @default 'system'
    */
   defaultMode?: ThemeMode;
 
   /**
-   * Initial color scheme.
+   * Called whenever the mode is changed through the context
+   * (`setMode`, `toggleMode`) or by another tab.
+   */
+  onModeChange?: (mode: ThemeMode) => void;
+
+  /**
+   * Controlled color scheme. Use with `onColorSchemeChange`.
+   */
+  colorScheme?: ColorScheme;
+
+  /**
+   * Initial color scheme when uncontrolled.
    * @default 'default'
    */
   defaultColorScheme?: ColorScheme;
 
   /**
-   * Whether to persist theme settings to localStorage.
-   * @default true
+   * Called whenever the color scheme is changed through the context
+   * or by another tab.
+   */
+  onColorSchemeChange?: (scheme: ColorScheme) => void;
+
+  /**
+   * Hex seed color to generate the color roles from at runtime.
+   * Overrides the colors of `colorScheme` while set. Changing the prop
+   * replaces any value set through `setSeedColor()`. Invalid colors are
+   * ignored.
+   */
+  seedColor?: string | null;
+
+  /**
+   * Image to take the seed color from, e.g. album art or a wallpaper, as
+   * an element, bitmap, blob or URL. Once its colors are extracted they
+   * take precedence over `seedColor`; until then, or if the image can't
+   * be read, the current colors stay. Keep the value's identity stable.
+   */
+  seedImage?: ImageSource | null;
+
+  /**
+   * Extra named color roles (e.g. `success`, `warning`), harmonized toward
+   * the active seed and applied as `--md-sys-color-{name}`, `on-{name}`,
+   * `{name}-container` and `on-{name}-container`. Target them with the
+   * `color` prop of Button, Chip and Badge. Entries with an invalid name
+   * or color are skipped. Keep the object's identity stable to avoid
+   * regenerating on every render.
+   */
+  customColors?: CustomColors;
+
+  /**
+   * Font family for display, headline and title-large text,
+   * e.g. `"'Google Sans', sans-serif"`.
+   */
+  brandFont?: string;
+
+  /**
+   * Font family for the remaining title, body and label text.
+   */
+  plainFont?: string;
+
+  /**
+   * Corner radius scale: a multiplier of the default radii, or explicit
+   * radii per corner size (numbers are pixels).
+   */
+  shape?: ShapeScale;
+
+  /**
+   * Corner family applied to component shapes.
+   * @default 'rounded'
+   */
+  cornerFamily?: CornerFamily;
+
+  /**
+   * Reduce motion regardless of the OS setting (`true`), keep full motion
+   * (`false`), or follow `prefers-reduced-motion` (`'system'`). Applies to
+   * the motion tokens and every animation run through `animate()`.
+   * @default 'system'
+   */
+  reducedMotion?: boolean | 'system';
+
+  /**
+   * Animate mode and color scheme changes made through the context:
+   * a circular reveal from the `origin` passed to `toggleMode`, `setMode`
+   * or `setColorScheme`, or a cross-fade. Uses the View Transitions API
+   * where available and CSS color transitions otherwise; skipped when
+   * motion is reduced.
+   * @default 'none'
+   */
+  transition?: ThemeTransition;
+
+  /**
+   * Default density level of Button, TextField, Select, List, Chip and
+   * Checkbox. A component's own `density` prop takes precedence.
+   * @default 0
+   */
+  density?: Density;
+
+  /**
+   * Initial dynamic-scheme variant. Any variant other than `'tonal-spot'`
+   * regenerates the active scheme's colors at runtime.
+   * @default 'tonal-spot'
+   */
+  defaultVariant?: SchemeVariant;
+
+  /**
+   * Initial contrast level. Medium and high contrast regenerate the
+   * active scheme's colors at runtime.
+   * @default 'standard'
+   */
+  defaultContrast?: ThemeContrast;
+
+  /**
+   * Where theme attributes and generated colors are applied.
+   * `'document'` writes them to `document.documentElement`; `'subtree'`
+   * renders a wrapper element and applies them there, so nested providers
+   * don't affect the rest of the page.
+   * @default 'document', or 'subtree' when nested inside another ThemeProvider
+   */
+  scope?: ThemeScope;
+
+  /**
+   * Element rendered as the wrapper when `scope` is `'subtree'`.
+   * @default 'div'
+   */
+  as?: React.ElementType;
+
+  /**
+   * Class name for the wrapper element when `scope` is `'subtree'`.
+   */
+  className?: string;
+
+  /**
+   * Whether to persist theme settings.
+   * @default true, or false when nested inside another ThemeProvider
    */
   persist?: boolean;
 
   /**
-   * Storage key prefix for localStorage.
+   * Where theme settings are persisted: a built-in adapter name or a custom
+   * `{ get, set, subscribe }` adapter (keep its identity stable). Use
+   * `'cookie'` so the server can read them (see `getThemeFromCookies`).
+   * Changes made in other tabs are picked up through `subscribe`.
+   * @default 'localStorage'
+   */
+  storage?: ThemeStorageType | ThemeStorageAdapter;
+
+  /**
+   * Storage key prefix.
    * @default 'md'
    */
   storageKeyPrefix?: string;
@@ -93,6 +338,14 @@ export interface ThemeProviderProps {
   children: React.ReactNode;
 }
 
+const {
+  mode: isThemeMode,
+  colorScheme: isColorScheme,
+  seedColor: isSeedColor,
+  variant: isSchemeVariant,
+  contrast: isThemeContrast,
+} = THEME_SETTING_VALIDATORS;
+
 /**
  * Get the system's preferred color scheme.
  */
@@ -102,29 +355,20 @@ function getSystemPreference(): 'light' | 'dark' {
 }
 
 /**
- * Get stored value from localStorage.
+ * Get the system's preferred contrast level.
  */
-function getStoredValue<T>(key: string, fallback: T): T {
-  if (typeof window === 'undefined') return fallback;
-  try {
-    const stored = localStorage.getItem(key);
-    if (!stored) return fallback;
-    return JSON.parse(stored) as T;
-  } catch {
-    try {
-      localStorage.removeItem(key);
-    } catch {
-      // localStorage not available
-    }
-    return fallback;
-  }
+function getSystemContrast(): ContrastLevel {
+  if (typeof window === 'undefined') return 'standard';
+  return window.matchMedia('(prefers-contrast: more)').matches ? 'high' : 'standard';
 }
 
 /**
  * Theme Provider Component
  *
  * Wraps your application to provide theme context.
- * Automatically applies theme attributes to the document root.
+ * Automatically applies theme attributes to the document root, or to its own
+ * wrapper element when `scope="subtree"`. `useTheme()` resolves to the
+ * nearest provider.
  *
  * @example
  * ```tsx
@@ -137,29 +381,197 @@ function getStoredValue<T>(key: string, fallback: T): T {
  *     </ThemeProvider>
  *   );
  * }
+ *
+ * // Tenant brand color picked at runtime
+ * <ThemeProvider seedColor={tenant.brandColor} defaultVariant="vibrant">
+ *   <YourApp />
+ * </ThemeProvider>
+ *
+ * // Player view themed from the current cover art
+ * <ThemeProvider scope="subtree" seedImage={track.coverUrl}>
+ *   <Player />
+ * </ThemeProvider>
+ *
+ * // Brand typography
+ * <ThemeProvider brandFont="'Google Sans', sans-serif" plainFont="'Roboto', sans-serif">
+ *   <YourApp />
+ * </ThemeProvider>
+ *
+ * // Sharper, cut corners
+ * <ThemeProvider shape={0.5} cornerFamily="cut">
+ *   <YourApp />
+ * </ThemeProvider>
+ *
+ * // Mode owned by an external store
+ * <ThemeProvider mode={prefs.mode} onModeChange={(mode) => dispatch(setThemeMode(mode))}>
+ *   <YourApp />
+ * </ThemeProvider>
+ *
+ * // Dark card inside a light page
+ * <ThemeProvider defaultMode="light">
+ *   <ThemeProvider scope="subtree" defaultMode="dark" as="section">
+ *     <Card />
+ *   </ThemeProvider>
+ * </ThemeProvider>
  * ```
  */
 export function ThemeProvider({
+  mode: modeProp,
   defaultMode = 'system',
+  onModeChange,
+  colorScheme: colorSchemeProp,
   defaultColorScheme = 'default',
-  persist = true,
+  onColorSchemeChange,
+  seedColor: seedColorProp,
+  seedImage,
+  customColors,
+  brandFont,
+  plainFont,
+  shape,
+  cornerFamily,
+  reducedMotion = 'system',
+  transition = 'none',
+  density,
+  defaultVariant = DEFAULT_SCHEME_VARIANT,
+  defaultContrast = DEFAULT_CONTRAST_LEVEL,
+  scope: scopeProp,
+  as: Component = 'div',
+  className,
+  persist: persistProp,
+  storage: storageProp = 'localStorage',
   storageKeyPrefix = 'md',
   children,
 }: ThemeProviderProps) {
-  const modeKey = `${storageKeyPrefix}-theme-mode`;
-  const schemeKey = `${storageKeyPrefix}-color-scheme`;
-
-  // Initialize from localStorage or defaults
-  const [mode, setModeState] = useState<ThemeMode>(() =>
-    persist ? getStoredValue(modeKey, defaultMode) : defaultMode
+  const parent = useContext(ThemeContext);
+  const wrapperRef = useRef<HTMLElement>(null);
+  const scope = scopeProp ?? (parent ? 'subtree' : 'document');
+  const persist = persistProp ?? !parent;
+  const storage = resolveThemeStorage(storageProp);
+
+  const modeKey = `${storageKeyPrefix}-${THEME_STORAGE_KEYS.mode}`;
+  const schemeKey = `${storageKeyPrefix}-${THEME_STORAGE_KEYS.colorScheme}`;
+  const seedKey = `${storageKeyPrefix}-${THEME_STORAGE_KEYS.seedColor}`;
+  const variantKey = `${storageKeyPrefix}-${THEME_STORAGE_KEYS.variant}`;
+  const contrastKey = `${storageKeyPrefix}-${THEME_STORAGE_KEYS.contrast}`;
+
+  // Initialize from storage or defaults
+  const [initialMode] = useState<ThemeMode>(() =>
+    persist ? readStoredValue(storage, modeKey, defaultMode, isThemeMode) : defaultMode
   );
-  const [colorScheme, setColorSchemeState] = useState<ColorScheme>(() =>
-    persist ? getStoredValue(schemeKey, defaultColorScheme) : defaultColorScheme
+  const [initialColorScheme] = useState<ColorScheme>(() =>
+    persist ? readStoredValue(storage, schemeKey, defaultColorScheme, isColorScheme) : defaultColorScheme
   );
+  const [mode, setModeState] = useControllableState({
+    value: modeProp,
+    defaultValue: initialMode,
+    onChange: onModeChange,
+  });
+  const [colorScheme, setColorSchemeState] = useControllableState({
+    value: colorSchemeProp,
+    defaultValue: initialColorScheme,
+    onChange: onColorSchemeChange,
+  });
+  const [seedColor, setSeedColorState] = useState<string | null>(() => {
+    if (seedColorProp !== undefined) return isSeedColor(seedColorProp) ? seedColorProp : null;
+    return persist ? readStoredValue<string | null>(storage, seedKey, null, isSeedColor) : null;
+  });
+  const [variant, setVariantState] = useState<SchemeVariant>(() =>
+    persist ? readStoredValue(storage, variantKey, defaultVariant, isSchemeVariant) : defaultVariant
+  );
+  const [contrast, setContrastState] = useState<ThemeContrast>(() =>
+    persist ? readStoredValue(storage, contrastKey, defaultContrast, isThemeContrast) : defaultContrast
+  );
+  const [prevSeedColorProp, setPrevSeedColorProp] = useState(seedColorProp);
+  const [imageSeed, setImageSeed] = useState<string | null>(null);
+  const [prevSeedImage, setPrevSeedImage] = useState(seedImage);
   const [systemPreference, setSystemPreference] = useState<'light' | 'dark'>(getSystemPreference);
+  const [systemContrast, setSystemContrast] = useState<ContrastLevel>(getSystemContrast);
+
+  // A new seedColor prop takes over from whatever was set at runtime
+  if (seedColorProp !== prevSeedColorProp) {
+    setPrevSeedColorProp(seedColorProp);
+    setSeedColorState(isSeedColor(seedColorProp) ? seedColorProp : null);
+  }
+
+  // Removing the image drops its seed; a new image keeps the old one until extracted
+  if (seedImage !== prevSeedImage) {
+    setPrevSeedImage(seedImage);
+    if (!seedImage) setImageSeed(null);
+  }
 
   // Resolve the actual theme mode
   const resolvedMode = mode === 'system' ? systemPreference : mode;
+  const resolvedContrast = contrast === 'system' ? systemContrast : contrast;
+
+  // Pre-generated CSS covers the named schemes in the default variant and
+  // contrast; everything else is generated in the browser.
+  const isDefaultScheme =
+    variant === DEFAULT_SCHEME_VARIANT && resolvedContrast === DEFAULT_CONTRAST_LEVEL;
+  const activeSeed = imageSeed ?? seedColor;
+  const schemeSeed = useSyncExternalStore(
+    subscribeColorSchemes,
+    () => getColorSchemeSeed(colorScheme),
+    () => getColorSchemeSeed(colorScheme)
+  );
+  const schemeOptions = useSyncExternalStore(
+    subscribeColorSchemes,
+    () => getColorSchemeOptions(colorScheme),
+    () => getColorSchemeOptions(colorScheme)
+  );
+  const dynamicSeed = activeSeed ?? (isDefaultScheme ? null : schemeSeed);
+
+  // A registered scheme keeps its own options where the provider uses the defaults
+  const dynamicScheme = useMemo(
+    () =>
+      dynamicSeed
+        ? generateColorScheme(dynamicSeed, {
+            ...(!activeSeed && schemeOptions),
+            ...(variant !== DEFAULT_SCHEME_VARIANT && { variant }),
+            ...(resolvedContrast !== DEFAULT_CONTRAST_LEVEL && { contrast: resolvedContrast }),
+          })
+        : null,
+    [dynamicSeed, activeSeed, schemeOptions, variant, resolvedContrast]
+  );
+
+  const customSeed = activeSeed ?? schemeSeed ?? COLOR_SCHEME_SEEDS.default;
+  const customRoles = useMemo(
+    () =>
+      customColors
+        ? generateCustomColors(
+            // Skip invalid entries rather than throwing during render
+            Object.fromEntries(Object.entries(customColors).filter(([name, color]) => isCustomColor(name, color))),
+            { seed: customSeed, contrast: resolvedContrast }
+          )
+        : null,
+    [customColors, customSeed, resolvedContrast]
+  );
+
+  // Typeface, shape and density overrides
+  const systemTokens = useMemo(
+    () => ({
+      ...typescaleFonts({ brandFont, plainFont }),
+      ...shapeTokens({ shape, cornerFamily }),
+      ...(density !== undefined && { '--md-sys-density': String(density) }),
+    }),
+    [brandFont, plainFont, shape, cornerFamily, density]
+  );
+
+  // Extract the seed color of seedImage
+  useEffect(() => {
+    if (!seedImage) return;
+    let cancelled = false;
+    sourceColorFromImage(seedImage).then(
+      (color) => {
+        if (!cancelled) setImageSeed(color);
+      },
+      () => {
+        // Unreadable image: keep the current colors
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [seedImage]);
 
   // Listen for system preference changes
   useEffect(() => {
@@ -173,8 +585,21 @@ export function ThemeProvider({
     return () => mediaQuery.removeEventListener('change', handleChange);
   }, []);
 
-  // Apply theme to document
+  // Listen for system contrast changes
   useEffect(() => {
+    const mediaQuery = window.matchMedia('(prefers-contrast: more)');
+
+    const handleChange = (e: MediaQueryListEvent) => {
+      setSystemContrast(e.matches ? 'high' : 'standard');
+    };
+
+    mediaQuery.addEventListener('change', handleChange);
+    return () => mediaQuery.removeEventListener('change', handleChange);
+  }, []);
+
+  // Apply theme to document (subtree scope renders attributes on its wrapper)
+  useEffect(() => {
+    if (scope !== 'document') return;
     const root = document.documentElement;
 
     // Set data-theme attribute
@@ -190,52 +615,236 @@ export function ThemeProvider({
     } else {
       root.setAttribute('data-scheme', colorScheme);
     }
-  }, [mode, colorScheme]);
 
-  // Persist to localStorage
+    // Set data-scheme-variant attribute
+    if (variant === DEFAULT_SCHEME_VARIANT) {
+      root.removeAttribute('data-scheme-variant');
+    } else {
+      root.setAttribute('data-scheme-variant', variant);
+    }
+
+    // Set data-contrast attribute
+    if (resolvedContrast === DEFAULT_CONTRAST_LEVEL) {
+      root.removeAttribute('data-contrast');
+    } else {
+      root.setAttribute('data-contrast', resolvedContrast);
+    }
+  }, [scope, mode, colorScheme, variant, resolvedContrast]);
+
+  // Override prefers-reduced-motion
+  useEffect(() => {
+    if (scope !== 'document' || reducedMotion === 'system') return;
+    const root = document.documentElement;
+    root.setAttribute('data-reduced-motion', String(reducedMotion));
+    return () => root.removeAttribute('data-reduced-motion');
+  }, [scope, reducedMotion]);
+
+  // Apply runtime-generated color roles as inline custom properties
+  useEffect(() => {
+    if (scope !== 'document' || !dynamicScheme) return;
+    return applyColorRoles(document.documentElement, dynamicScheme[resolvedMode]);
+  }, [scope, dynamicScheme, resolvedMode]);
+
+  useEffect(() => {
+    if (scope !== 'document' || !customRoles) return;
+    return applyColorRoles(document.documentElement, customRoles[resolvedMode]);
+  }, [scope, customRoles, resolvedMode]);
+
+  // System tokens are plain custom properties too, so they reuse the same helper
+  useEffect(() => {
+    if (scope !== 'document') return;
+    return applyColorRoles(document.documentElement, systemTokens);
+  }, [scope, systemTokens]);
+
+  // Persist to storage
   useEffect(() => {
     if (persist) {
-      localStorage.setItem(modeKey, JSON.stringify(mode));
+      writeStoredValue(storage, modeKey, mode);
     }
-  }, [mode, persist, modeKey]);
+  }, [mode, persist, storage, modeKey]);
 
   useEffect(() => {
     if (persist) {
-      localStorage.setItem(schemeKey, JSON.stringify(colorScheme));
+      writeStoredValue(storage, schemeKey, colorScheme);
     }
-  }, [colorScheme, persist, schemeKey]);
+  }, [colorScheme, persist, storage, schemeKey]);
 
-  const setMode = useCallback((newMode: ThemeMode) => {
-    setModeState(newMode);
-  }, []);
+  useEffect(() => {
+    if (persist) {
+      writeStoredValue(storage, seedKey, seedColor);
+    }
+  }, [seedColor, persist, storage, seedKey]);
 
-  const setColorScheme = useCallback((scheme: ColorScheme) => {
-    setColorSchemeState(scheme);
-  }, []);
+  useEffect(() => {
+    if (persist) {
+      writeStoredValue(storage, variantKey, variant);
+    }
+  }, [variant, persist, storage, variantKey]);
+
+  useEffect(() => {
+    if (persist) {
+      writeStoredValue(storage, contrastKey, contrast);
+    }
+  }, [contrast, persist, storage, contrastKey]);
 
-  const toggleMode = useCallback(() => {
-    setModeState((current) => {
-      if (current === 'system') {
-        // If system, toggle to opposite of current resolved mode
-        return systemPreference === 'dark' ? 'light' : 'dark';
+  // Pick up changes made elsewhere, e.g. in another tab
+  useEffect(() => {
+    if (!persist || !storage.subscribe) return;
+    return storage.subscribe((key) => {
+      if (key === null || key === modeKey) {
+        setModeState(readStoredValue(storage, modeKey, defaultMode, isThemeMode));
+      }
+      if (key === null || key === schemeKey) {
+        setColorSchemeState(readStoredValue(storage, schemeKey, defaultColorScheme, isColorScheme));
+      }
+      if ((key === null || key === seedKey) && seedColorProp === undefined) {
+        setSeedColorState(readStoredValue<string | null>(storage, seedKey, null, isSeedColor));
+      }
+      if (key === null || key === variantKey) {
+        setVariantState(readStoredValue(storage, variantKey, defaultVariant, isSchemeVariant));
+      }
+      if (key === null || key === contrastKey) {
+        setContrastState(readStoredValue(storage, contrastKey, defaultContrast, isThemeContrast));
       }
-      return current === 'dark' ? 'light' : 'dark';
     });
-  }, [systemPreference]);
+  }, [
+    persist,
+    storage,
+    setModeState,
+    setColorSchemeState,
+    modeKey,
+    schemeKey,
+    seedKey,
+    variantKey,
+    contrastKey,
+    seedColorProp,
+    defaultMode,
+    defaultColorScheme,
+    defaultVariant,
+    defaultContrast,
+  ]);
+
+  // View transitions snapshot the DOM, so the new theme is flushed synchronously
+  const withTransition = useCallback(
+    (update: () => void, origin?: ThemeTransitionOrigin) => {
+      if (transition === 'none') {
+        update();
+        return;
+      }
+      const target = scope === 'document' ? document.documentElement : wrapperRef.current;
+      if (!target) {
+        update();
+        return;
+      }
+      startThemeTransition(() => flushSync(update), { type: transition, origin, target });
+    },
+    [transition, scope]
+  );
+
+  const setMode = useCallback(
+    (newMode: ThemeMode, origin?: ThemeTransitionOrigin) => {
+      withTransition(() => setModeState(newMode), origin);
+    },
+    [setModeState, withTransition]
+  );
+
+  const setColorScheme = useCallback(
+    (scheme: ColorScheme, origin?: ThemeTransitionOrigin) => {
+      withTransition(() => setColorSchemeState(scheme), origin);
+    },
+    [setColorSchemeState, withTransition]
+  );
+
+  const setSeedColor = useCallback((color: string | null) => {
+    if (color !== null && !isHexColor(color)) {
+      throw new Error(`Invalid seed color: "${color}". Expected a hex color like #6750A4.`);
+    }
+    setSeedColorState(color);
+  }, []);
+
+  const setVariant = useCallback((next: SchemeVariant) => {
+    setVariantState(next);
+  }, []);
+
+  const setContrast = useCallback((next: ThemeContrast) => {
+    setContrastState(next);
+  }, []);
+
+  const toggleMode = useCallback(
+    (origin?: ThemeTransitionOrigin) => {
+      withTransition(
+        () =>
+          setModeState((current) => {
+            if (current === 'system') {
+              // If system, toggle to opposite of current resolved mode
+              return systemPreference === 'dark' ? 'light' : 'dark';
+            }
+            return current === 'dark' ? 'light' : 'dark';
+          }),
+        origin
+      );
+    },
+    [systemPreference, setModeState, withTransition]
+  );
 
   const value = useMemo<ThemeContextValue>(
     () => ({
       mode,
       resolvedMode,
       colorScheme,
+      seedColor: activeSeed,
+      variant,
+      contrast,
+      resolvedContrast,
       setMode,
       setColorScheme,
+      setSeedColor,
+      setVariant,
+      setContrast,
       toggleMode,
     }),
-    [mode, resolvedMode, colorScheme, setMode, setColorScheme, toggleMode]
+    [
+      mode,
+      resolvedMode,
+      colorScheme,
+      activeSeed,
+      variant,
+      contrast,
+      resolvedContrast,
+      setMode,
+      setColorScheme,
+      setSeedColor,
+      setVariant,
+      setContrast,
+      toggleMode,
+    ]
   );
 
-  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+  const content = <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+
+  if (scope === 'document') return content;
+
+  // A subtree always sets data-theme so it doesn't inherit the page's mode
+  return (
+    <Component
+      ref={wrapperRef}
+      className={className}
+      data-theme={resolvedMode}
+      data-scheme={colorScheme === 'default' ? undefined : colorScheme}
+      data-scheme-variant={variant === DEFAULT_SCHEME_VARIANT ? undefined : variant}
+      data-contrast={resolvedContrast === DEFAULT_CONTRAST_LEVEL ? undefined : resolvedContrast}
+      data-reduced-motion={reducedMotion === 'system' ? undefined : String(reducedMotion)}
+      style={
+        {
+          ...dynamicScheme?.[resolvedMode],
+          ...customRoles?.[resolvedMode],
+          ...systemTokens,
+        } as React.CSSProperties
+      }
+    >
+      {content}
+    </Component>
+  );
 }
 
 /**
@@ -0,0 +1,49 @@
+import { getThemeScript, type ThemeScriptOptions } from './themeStorage';
+
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface ThemeScriptProps extends ThemeScriptOptions {
+  /**
+   * Nonce for a Content Security Policy that restricts inline scripts.
+   */
+  nonce?: string;
+}
+
+/**
+ * Theme Script Component
+ *
+ * Inline, blocking script that applies the stored theme mode, color scheme,
+ * variant and contrast to `<html>` before first paint, so server-rendered
+ * pages don't flash the default theme while hydrating. Render it in
+ * `<head>` with the same `storage` and `storageKeyPrefix` as the
+ * ThemeProvider, and add `suppressHydrationWarning` to `<html>`.
+ *
+ * Colors generated at runtime from `seedColor` are applied after hydration.
+ *
+ * @example
+ * ```tsx
+ * <html lang="en" suppressHydrationWarning>
+ *   <head>
+ *     <ThemeScript defaults={{ mode: 'system' }} />
+ *   </head>
+ *   <body>
+ *     <ThemeProvider>
+ *       <App />
+ *     </ThemeProvider>
+ *   </body>
+ * </html>
+ * ```
+ */
+export function ThemeScript({ nonce, ...options }: ThemeScriptProps) {
+  return (
+    <script
+      nonce={nonce}
+      suppressHydrationWarning
+      dangerouslySetInnerHTML={{ __html: getThemeScript(options) }}
+    />
+  );
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  getColorSchemeOptions,
+  getColorSchemes,
+  getColorSchemeSeed,
+  registerColorScheme,
+  subscribeColorSchemes,
+} from './colorSchemes';
+import { COLOR_SCHEME_SEEDS, generateColorScheme, type ColorRoles } from './dynamicColor';
+import type { ColorScheme } from './ThemeProvider';
+
+describe('registerColorScheme', () => {
+  it('registers seed and role schemes until unregistered', () => {
+    const { light, dark } = generateColorScheme('#2E5E3A');
+    const unregisterAcme = registerColorScheme('acme', '#FF5A00');
+    const unregisterForest = registerColorScheme('forest', { light, dark });
+
+    expect(getColorSchemes()).toEqual([...Object.keys(COLOR_SCHEME_SEEDS), 'acme', 'forest']);
+    expect(getColorSchemeSeed('acme' as ColorScheme)).toBe('#ff5a00');
+    expect(getColorSchemeSeed('forest' as ColorScheme)).toBeNull();
+
+    unregisterAcme();
+    unregisterForest();
+    expect(getColorSchemes()).toEqual(Object.keys(COLOR_SCHEME_SEEDS));
+  });
+
+  it('keeps the options of seed schemes for regeneration', () => {
+    const options = { variant: 'vibrant' } as const;
+    const unregister = registerColorScheme('acme', '#FF5A00', options);
+
+    expect(getColorSchemeOptions('acme' as ColorScheme)).toBe(options);
+    expect(getColorSchemeOptions('teal')).toBeUndefined();
+
+    unregister();
+    expect(getColorSchemeOptions('acme' as ColorScheme)).toBeUndefined();
+  });
+
+  it('rejects invalid and built-in names and invalid roles', () => {
+    const roles: ColorRoles = { '--md-sys-color-primary': 'red' };
+    expect(() => registerColorScheme('Acme', '#FF5A00')).toThrow(/Invalid color scheme name/);
+    expect(() => registerColorScheme('teal', '#FF5A00')).toThrow(/built in/);
+    expect(() => registerColorScheme('acme', { light: roles, dark: roles })).toThrow(/Invalid light role/);
+  });
+
+  it('accepts names that shadow object prototype keys', () => {
+    expect(getColorSchemeSeed('constructor' as ColorScheme)).toBeNull();
+    const unregister = registerColorScheme('constructor', '#FF5A00');
+    expect(getColorSchemeSeed('constructor' as ColorScheme)).toBe('#ff5a00');
+    unregister();
+  });
+
+  it('notifies subscribers of registrations', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeColorSchemes(listener);
+    const unregister = registerColorScheme('acme', '#FF5A00');
+    unregister();
+    unsubscribe();
+    registerColorScheme('acme', '#FF5A00')();
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
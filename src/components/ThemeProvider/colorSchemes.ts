@@ -0,0 +1,188 @@
+import {
+  COLOR_SCHEME_SEEDS,
+  generateColorScheme,
+  isHexColor,
+  type ColorRoles,
+  type GenerateColorSchemeOptions,
+} from './dynamicColor';
+import type { ColorScheme } from './ThemeProvider';
+
+/**
+ * Color Scheme Registry
+ *
+ * Adds named color schemes next to the pre-generated ones without a
+ * rebuild. Each registered scheme is injected as a `[data-scheme]` rule in
+ * a shared `<style>` element, so `setColorScheme(name)` and subtree
+ * providers pick it up like any built-in scheme.
+ *
+ * Add the name to `ColorSchemeNames` so it type-checks as a `ColorScheme`:
+ *
+ * ```ts
+ * declare module 'react-material-3-pure' {
+ *   interface ColorSchemeNames {
+ *     acme: true;
+ *   }
+ * }
+ * ```
+ */
+
+/**
+ * Light and dark color roles, keyed by `--md-sys-color-*` custom property.
+ */
+export interface ColorSchemeRoles {
+  light: ColorRoles;
+  dark: ColorRoles;
+}
+
+interface RegisteredColorScheme {
+  seed: string | null;
+  options?: GenerateColorSchemeOptions;
+  roles: ColorSchemeRoles;
+}
+
+const registeredSchemes = new Map<string, RegisteredColorScheme>();
+const listeners = new Set<() => void>();
+
+const STYLE_ELEMENT_ID = 'md-registered-color-schemes';
+const SCHEME_NAME = /^[a-z][a-z0-9-]*$/;
+const CUSTOM_PROPERTY = /^--[a-z0-9-]+$/;
+
+function rolesToCss(roles: ColorRoles, indent: string): string {
+  return Object.entries(roles)
+    .map(([name, value]) => `${indent}${name}: ${value};\n`)
+    .join('');
+}
+
+function schemeCss(name: string, { light, dark }: ColorSchemeRoles): string {
+  const scheme = `[data-scheme="${name}"]`;
+  return (
+    `${scheme} {\n${rolesToCss(light, '  ')}}\n` +
+    `[data-theme="dark"]${scheme} {\n${rolesToCss(dark, '  ')}}\n` +
+    `@media (prefers-color-scheme: dark) {\n` +
+    `  :root:not([data-theme="light"])${scheme} {\n${rolesToCss(dark, '    ')}  }\n}\n`
+  );
+}
+
+function isBuiltIn(name: string): name is keyof typeof COLOR_SCHEME_SEEDS {
+  return Object.hasOwn(COLOR_SCHEME_SEEDS, name);
+}
+
+function injectSchemes(): void {
+  if (typeof document === 'undefined') return;
+
+  let style = document.getElementById(STYLE_ELEMENT_ID);
+  if (!style) {
+    style = document.createElement('style');
+    style.id = STYLE_ELEMENT_ID;
+    document.head.appendChild(style);
+  }
+  style.textContent = [...registeredSchemes]
+    .map(([name, { roles }]) => schemeCss(name, roles))
+    .join('\n');
+}
+
+function schemesChanged(): void {
+  injectSchemes();
+  listeners.forEach((listener) => listener());
+}
+
+function validateRoles(name: string, roles: ColorSchemeRoles): void {
+  for (const mode of ['light', 'dark'] as const) {
+    for (const [property, value] of Object.entries(roles[mode] ?? {})) {
+      if (!CUSTOM_PROPERTY.test(property) || !isHexColor(value)) {
+        throw new Error(
+          `Invalid ${mode} role for color scheme "${name}": ${property}: ${value}. Expected a custom property and a hex color.`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Register a named color scheme from a hex seed color or from explicit
+ * light and dark roles, and inject it into the page. Registering a name
+ * again replaces it. Returns a function that unregisters it.
+ *
+ * Seed-based schemes are regenerated at runtime when ThemeProvider uses a
+ * non-default variant or contrast, keeping the options they were
+ * registered with unless the provider overrides them; role-based schemes
+ * are used as given.
+ *
+ * @throws If the name is invalid or built in, or a color is invalid.
+ *
+ * @example
+ * ```ts
+ * registerColorScheme('acme', '#FF5A00', { variant: 'vibrant' });
+ * registerColorScheme('midnight', { light: lightRoles, dark: darkRoles });
+ *
+ * const { setColorScheme } = useTheme();
+ * setColorScheme('acme');
+ * ```
+ */
+export function registerColorScheme(
+  name: string,
+  seedOrRoles: string | ColorSchemeRoles,
+  options?: GenerateColorSchemeOptions
+): () => void {
+  if (!SCHEME_NAME.test(name)) {
+    throw new Error(`Invalid color scheme name: "${name}". Use lowercase letters, digits and dashes.`);
+  }
+  if (isBuiltIn(name)) {
+    throw new Error(`Color scheme "${name}" is built in and can't be registered.`);
+  }
+
+  let scheme: RegisteredColorScheme;
+  if (typeof seedOrRoles === 'string') {
+    const { seed, light, dark } = generateColorScheme(seedOrRoles, options);
+    scheme = { seed, options, roles: { light, dark } };
+  } else {
+    validateRoles(name, seedOrRoles);
+    scheme = { seed: null, roles: { light: seedOrRoles.light, dark: seedOrRoles.dark } };
+  }
+
+  registeredSchemes.set(name, scheme);
+  schemesChanged();
+
+  return () => {
+    if (registeredSchemes.get(name) !== scheme) return;
+    registeredSchemes.delete(name);
+    schemesChanged();
+  };
+}
+
+/**
+ * Names of the built-in and registered color schemes, built-in first.
+ */
+export function getColorSchemes(): ColorScheme[] {
+  return [...Object.keys(COLOR_SCHEME_SEEDS), ...registeredSchemes.keys()] as ColorScheme[];
+}
+
+/**
+ * Seed color of a built-in or seed-registered scheme, or null for schemes
+ * registered with explicit roles and unknown names.
+ */
+export function getColorSchemeSeed(name: ColorScheme): string | null {
+  if (isBuiltIn(name)) return COLOR_SCHEME_SEEDS[name];
+  return registeredSchemes.get(name)?.seed ?? null;
+}
+
+/**
+ * Options a seed-registered scheme was registered with, or undefined for
+ * built-in, role-registered and unknown schemes. Returns the same object
+ * until the scheme is registered again.
+ */
+export function getColorSchemeOptions(name: ColorScheme): GenerateColorSchemeOptions | undefined {
+  if (isBuiltIn(name)) return undefined;
+  return registeredSchemes.get(name)?.options;
+}
+
+/**
+ * Call `listener` whenever a scheme is registered or unregistered, e.g.
+ * with `useSyncExternalStore`. Returns an unsubscribe function.
+ */
+export function subscribeColorSchemes(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { auditColorScheme, auditContrast, contrastRatio, resolveMinContrast } from './contrast';
+import { generateColorScheme } from './dynamicColor';
+
+describe('contrastRatio', () => {
+  it('matches the WCAG ratios of black and white', () => {
+    expect(contrastRatio('#000000', '#ffffff')).toBeCloseTo(21);
+    expect(contrastRatio('#fff', '#fff')).toBe(1);
+    expect(() => contrastRatio('red', '#fff')).toThrow(/Invalid color/);
+  });
+});
+
+describe('auditContrast', () => {
+  it('checks on-color pairs, custom colors and text on every surface', () => {
+    const { light } = generateColorScheme('#6750A4', { customColors: { success: '#386A20' } });
+    const pairs = auditContrast(light).map((check) => `${check.foreground}/${check.background}`);
+    expect(pairs).toContain('on-primary/primary');
+    expect(pairs).toContain('on-success-container/success-container');
+    expect(pairs).toContain('on-surface-variant/surface-container-high');
+    expect(pairs).toContain('inverse-on-surface/inverse-surface');
+  });
+
+  it('fails pairs below the minimum', () => {
+    const roles = { '--md-sys-color-primary': '#777777', '--md-sys-color-on-primary': '#ffffff' };
+    expect(auditContrast(roles)).toEqual([
+      { foreground: 'on-primary', background: 'primary', ratio: 4.48, passes: false },
+    ]);
+    expect(auditContrast(roles, { minContrast: 'AA-large' })[0].passes).toBe(true);
+    expect(() => resolveMinContrast(0)).toThrow(/Invalid contrast ratio/);
+  });
+
+  it('passes AA for the default scheme in light and dark', () => {
+    expect(auditColorScheme(generateColorScheme('#6750A4')).passes).toBe(true);
+  });
+});
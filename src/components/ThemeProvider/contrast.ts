@@ -0,0 +1,173 @@
+import { argbFromHex, Contrast, xyzFromArgb } from '@material/material-color-utilities';
+import { isHexColor, type ColorRoles, type GeneratedColorScheme } from './dynamicColor';
+
+/**
+ * WCAG Contrast Audit
+ *
+ * Checks the foreground/background role pairs of a color scheme against
+ * a WCAG contrast ratio. Used by `scripts/build-themes.ts` for the shipped
+ * schemes, and at runtime for seeds picked by users.
+ *
+ * @see https://www.w3.org/TR/WCAG22/#contrast-minimum
+ */
+
+export type WcagLevel = 'AA' | 'AA-large' | 'AAA' | 'AAA-large';
+
+/**
+ * Minimum contrast ratio for each WCAG level. The `-large` levels apply
+ * to large text (24px, or 18.66px bold) and UI components.
+ */
+export const WCAG_CONTRAST_RATIOS: Record<WcagLevel, number> = {
+  'AA-large': 3,
+  AA: 4.5,
+  'AAA-large': 4.5,
+  AAA: 7,
+};
+
+const SURFACES = [
+  'surface',
+  'surface-dim',
+  'surface-bright',
+  'surface-container-lowest',
+  'surface-container-low',
+  'surface-container',
+  'surface-container-high',
+  'surface-container-highest',
+];
+
+/**
+ * Role pairs audited in addition to every `on-{role}` / `{role}` pair,
+ * as `[foreground, background]` role names.
+ */
+const EXTRA_CONTRAST_PAIRS: [string, string][] = [
+  ...SURFACES.flatMap((surface): [string, string][] => [
+    ['on-surface', surface],
+    ['on-surface-variant', surface],
+  ]),
+  ['inverse-on-surface', 'inverse-surface'],
+  ['inverse-primary', 'inverse-surface'],
+];
+
+const ROLE_PREFIX = '--md-sys-color-';
+
+/**
+ * WCAG contrast ratio of two hex colors, from 1 to 21.
+ *
+ * @throws If either color is not a valid hex color.
+ */
+export function contrastRatio(foreground: string, background: string): number {
+  for (const color of [foreground, background]) {
+    if (!isHexColor(color)) {
+      throw new Error(`Invalid color: "${color}". Expected a hex color like #6750A4.`);
+    }
+  }
+  const luminance = (hex: string) => xyzFromArgb(argbFromHex(hex))[1];
+  return Contrast.ratioOfYs(luminance(foreground), luminance(background));
+}
+
+export interface ContrastCheck {
+  /** Foreground role, e.g. `on-primary`. */
+  foreground: string;
+  /** Background role, e.g. `primary`. */
+  background: string;
+  /** Contrast ratio, rounded to two decimals. */
+  ratio: number;
+  /** Whether the ratio meets the audit's minimum. */
+  passes: boolean;
+}
+
+export interface ContrastAuditOptions {
+  /**
+   * Minimum contrast ratio, or the WCAG level whose ratio to use.
+   * @default 'AA'
+   */
+  minContrast?: WcagLevel | number;
+}
+
+/**
+ * Resolve a `minContrast` option to a ratio.
+ *
+ * @throws If the value is not a WCAG level or a ratio from 1 to 21.
+ */
+export function resolveMinContrast(minContrast: WcagLevel | number = 'AA'): number {
+  if (typeof minContrast === 'string') {
+    const ratio = WCAG_CONTRAST_RATIOS[minContrast];
+    if (ratio === undefined) {
+      throw new Error(`Invalid WCAG level: "${minContrast}". Expected one of ${Object.keys(WCAG_CONTRAST_RATIOS).join(', ')}.`);
+    }
+    return ratio;
+  }
+  if (!Number.isFinite(minContrast) || minContrast < 1 || minContrast > 21) {
+    throw new Error(`Invalid contrast ratio: ${minContrast}. Expected a number from 1 to 21.`);
+  }
+  return minContrast;
+}
+
+/**
+ * Check the contrast of every `on-{role}` / `{role}` pair, including custom
+ * colors, plus text roles on each surface and the inverse roles. Pairs
+ * whose roles are missing from `roles` are skipped.
+ *
+ * @example
+ * ```ts
+ * const { light } = generateColorScheme(tenantSeed);
+ * const failures = auditContrast(light, { minContrast: 'AA' }).filter((c) => !c.passes);
+ * ```
+ */
+export function auditContrast(
+  roles: ColorRoles,
+  { minContrast }: ContrastAuditOptions = {}
+): ContrastCheck[] {
+  const minRatio = resolveMinContrast(minContrast);
+  const names = Object.keys(roles)
+    .filter((name) => name.startsWith(ROLE_PREFIX))
+    .map((name) => name.slice(ROLE_PREFIX.length));
+
+  const pairs: [string, string][] = [
+    ...names
+      .filter((name) => name.startsWith('on-') && names.includes(name.slice(3)))
+      .map((name): [string, string] => [name, name.slice(3)]),
+    ...EXTRA_CONTRAST_PAIRS.filter(
+      ([foreground, background]) => names.includes(foreground) && names.includes(background)
+    ),
+  ];
+
+  return pairs.map(([foreground, background]) => {
+    const ratio = contrastRatio(roles[ROLE_PREFIX + foreground], roles[ROLE_PREFIX + background]);
+    return {
+      foreground,
+      background,
+      ratio: Math.round(ratio * 100) / 100,
+      passes: ratio >= minRatio,
+    };
+  });
+}
+
+export interface ColorSchemeContrastAudit {
+  light: ContrastCheck[];
+  dark: ContrastCheck[];
+  /** Whether every pair passes in both light and dark. */
+  passes: boolean;
+}
+
+/**
+ * Audit the light and dark roles of a generated scheme.
+ *
+ * @example
+ * ```ts
+ * const audit = auditColorScheme(generateColorScheme(tenantSeed), { minContrast: 'AAA' });
+ * if (!audit.passes) showContrastWarning(audit);
+ * ```
+ */
+export function auditColorScheme(
+  scheme: Pick<GeneratedColorScheme, 'light' | 'dark'>,
+  options?: ContrastAuditOptions
+): ColorSchemeContrastAudit {
+  const light = auditContrast(scheme.light, options);
+  const dark = auditContrast(scheme.dark, options);
+  return {
+    light,
+    dark,
+    passes: [...light, ...dark].every((check) => check.passes),
+  };
+}
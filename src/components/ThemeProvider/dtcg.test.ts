@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { cssToDtcg, dtcgToCss } from './dtcg';
+
+const THEME_CSS = `
+:root,
+[data-theme="light"] {
+  --md-sys-color-primary: #6750A4;
+  --md-sys-shape-corner-large: 16px;
+  --md-sys-elevation-level-1: 0px 1px 2px 0px rgba(0, 0, 0, 0.3);
+  --md-sys-typescale-title-large-font: 'Roboto', sans-serif;
+  --md-sys-typescale-title-large-size: 22px;
+  --md-sys-typescale-title-large-line-height: 28px;
+  --md-sys-typescale-title-large-weight: 400;
+  --md-sys-typescale-title-large-tracking: 0px;
+}
+
+[data-theme="dark"] {
+  --md-sys-color-primary: #D0BCFF;
+}
+
+:root,
+[data-reduced-motion="false"] {
+  --md-sys-motion-duration-short2: 100ms;
+  --md-sys-motion-easing-standard: cubic-bezier(0.2, 0, 0, 1);
+}
+`;
+
+/**
+ * Declarations of the rule with exactly the given selector.
+ */
+function declarations(css: string, selector: string): Record<string, string> {
+  const start = css.indexOf(`\n${selector} {`);
+  const body = css.slice(css.indexOf('{', start) + 1, css.indexOf('}', start));
+  return Object.fromEntries(
+    [...body.matchAll(/(--[a-z0-9-]+): ([^;]+);/g)].map(([, name, value]) => [name, value])
+  );
+}
+
+describe('DTCG round trip', () => {
+  const css = dtcgToCss(cssToDtcg(THEME_CSS));
+
+  it('keeps the light and dark color roles', () => {
+    expect(declarations(css, ':root, [data-theme="light"]')).toEqual({
+      '--md-sys-color-primary': '#6750a4',
+    });
+    expect(declarations(css, '[data-theme="dark"]')).toEqual({
+      '--md-sys-color-primary': '#d0bcff',
+    });
+  });
+
+  it('keeps shape, elevation, typescale and motion tokens', () => {
+    expect(declarations(css, ':root')).toEqual({
+      '--md-sys-shape-corner-large': '16px',
+      '--md-sys-elevation-level-1': '0px 1px 2px 0px #0000004d',
+      '--md-sys-typescale-title-large-font': "'Roboto', sans-serif",
+      '--md-sys-typescale-title-large-size': '22px',
+      '--md-sys-typescale-title-large-line-height': '28px',
+      '--md-sys-typescale-title-large-weight': '400',
+      '--md-sys-typescale-title-large-tracking': '0px',
+      '--md-sys-motion-duration-short2': '100ms',
+      '--md-sys-motion-easing-standard': 'cubic-bezier(0.2, 0, 0, 1)',
+    });
+  });
+
+  it('emits the generated named schemes', () => {
+    expect(declarations(css, '[data-scheme="teal"]')['--md-sys-color-primary']).toMatch(/^#[0-9a-f]{6}$/);
+  });
+
+  it('applies dark roles when the system is dark', () => {
+    expect(declarations(css, '  :root:not([data-theme="light"])')).toEqual({
+      '--md-sys-color-primary': '#d0bcff',
+    });
+    const tealDark = declarations(css, '[data-theme="dark"][data-scheme="teal"]');
+    expect(tealDark['--md-sys-color-primary']).toMatch(/^#[0-9a-f]{6}$/);
+    expect(declarations(css, '  :root:not([data-theme="light"])[data-scheme="teal"]')).toEqual(tealDark);
+  });
+});
@@ -0,0 +1,503 @@
+import { COLOR_SCHEME_SEEDS, generateColorScheme } from './dynamicColor';
+
+/**
+ * Design Tokens Community Group (DTCG) JSON converter, used by
+ * `scripts/dtcg.ts`.
+ *
+ * Token paths map to custom properties by joining them with dashes:
+ * `shape.corner.large` → `--md-sys-shape-corner-large`. Groups named
+ * `light`/`dark` and `scheme.<name>` select the block a token lands in,
+ * so `color.dark.primary` becomes `--md-sys-color-primary` under
+ * `[data-theme="dark"]`. Typography tokens expand to the typescale's
+ * `-font`, `-size`, `-line-height`, `-weight` and `-tracking` properties.
+ *
+ * @see https://www.designtokens.org/tr/drafts/format/
+ */
+
+const PREFIX = '--md-sys-';
+
+type Json = string | number | boolean | null | Json[] | { [key: string]: Json };
+export type JsonObject = { [key: string]: Json };
+
+interface DtcgToken {
+  $type?: string;
+  $value: Json;
+  $description?: string;
+}
+
+interface FlatToken {
+  path: string[];
+  type?: string;
+  value: Json;
+}
+
+function kebabCase(value: string): string {
+  return value.replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/[\s_]+/g, '-').toLowerCase();
+}
+
+function isObject(value: Json | undefined): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/* ==========================================================================
+   VALUES
+   ========================================================================== */
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function hexByte(value: number): string {
+  return Math.round(value * 255).toString(16).padStart(2, '0');
+}
+
+/**
+ * DTCG color (object form or legacy string) → CSS color.
+ */
+function colorToCss(value: Json): string {
+  if (typeof value === 'string') return value;
+  if (isObject(value)) {
+    const alpha = typeof value.alpha === 'number' ? value.alpha : 1;
+    if (typeof value.hex === 'string' && alpha === 1) return value.hex;
+    if (Array.isArray(value.components) && value.colorSpace === 'srgb') {
+      const [r, g, b] = value.components as number[];
+      return `#${hexByte(r)}${hexByte(g)}${hexByte(b)}${alpha < 1 ? hexByte(alpha) : ''}`;
+    }
+  }
+  throw new Error(`Unsupported color value: ${JSON.stringify(value)}`);
+}
+
+/**
+ * CSS color (`#rgb[a]`, `#rrggbb[aa]` or `rgb[a]()`) → DTCG color object.
+ */
+function cssToColor(css: string): JsonObject {
+  let r: number, g: number, b: number;
+  let alpha = 1;
+  const rgba = css.match(/^rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:[,\s/]+([\d.]+))?\s*\)$/);
+
+  if (rgba) {
+    [r, g, b] = [rgba[1], rgba[2], rgba[3]].map((c) => Number(c) / 255);
+    if (rgba[4] !== undefined) alpha = Number(rgba[4]);
+  } else {
+    let hex = css.replace('#', '');
+    if (hex.length <= 4) hex = hex.split('').map((c) => c + c).join('');
+    [r, g, b] = [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255);
+    if (hex.length === 8) alpha = round(parseInt(hex.slice(6, 8), 16) / 255);
+  }
+
+  const color: JsonObject = {
+    colorSpace: 'srgb',
+    components: [r, g, b].map(round),
+    hex: `#${hexByte(r)}${hexByte(g)}${hexByte(b)}`,
+  };
+  if (alpha < 1) color.alpha = alpha;
+  return color;
+}
+
+/**
+ * DTCG dimension or duration (object form or legacy string) → CSS length/time.
+ */
+function unitToCss(value: Json): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return `${value}px`;
+  if (isObject(value) && typeof value.value === 'number') return `${value.value}${value.unit}`;
+  throw new Error(`Unsupported dimension value: ${JSON.stringify(value)}`);
+}
+
+/**
+ * CSS length/time → DTCG `{ value, unit }`.
+ */
+function cssToUnit(css: string): JsonObject {
+  const match = css.match(/^(-?[\d.]+)([a-z%]*)$/);
+  if (!match) throw new Error(`Unsupported dimension: "${css}"`);
+  return { value: Number(match[1]), unit: match[2] || 'px' };
+}
+
+function fontFamilyToCss(value: Json): string {
+  const families = Array.isArray(value) ? value : [value];
+  return families
+    .map((family) => {
+      const name = String(family);
+      return /^[a-z-]+$/.test(name) ? name : `'${name}'`;
+    })
+    .join(', ');
+}
+
+function cssToFontFamily(css: string): string[] {
+  return css.split(',').map((family) => family.trim().replace(/^['"]|['"]$/g, ''));
+}
+
+/**
+ * Split on commas that aren't inside parentheses.
+ */
+function splitTopLevel(css: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of css) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function shadowToCss(value: Json): string {
+  const layers = Array.isArray(value) ? value : [value];
+  return layers
+    .map((layer) => {
+      if (!isObject(layer)) throw new Error(`Unsupported shadow value: ${JSON.stringify(layer)}`);
+      const { offsetX, offsetY, blur, spread, color, inset } = layer;
+      return [
+        inset ? 'inset' : '',
+        unitToCss(offsetX),
+        unitToCss(offsetY),
+        unitToCss(blur),
+        unitToCss(spread ?? 0),
+        colorToCss(color),
+      ]
+        .filter(Boolean)
+        .join(' ');
+    })
+    .join(', ');
+}
+
+function cssToShadow(css: string): JsonObject[] {
+  return splitTopLevel(css).map((layer) => {
+    const color = layer.match(/(rgba?\([^)]*\)|#[0-9a-f]+)/i)?.[0] ?? '#000000';
+    const [offsetX, offsetY, blur, spread = '0px'] = layer.replace(color, '').trim().split(/\s+/);
+    return {
+      color: cssToColor(color),
+      offsetX: cssToUnit(offsetX),
+      offsetY: cssToUnit(offsetY),
+      blur: cssToUnit(blur),
+      spread: cssToUnit(spread),
+    };
+  });
+}
+
+/* ==========================================================================
+   IMPORT: DTCG → CSS
+   ========================================================================== */
+
+interface CssBlock {
+  selectors: string[];
+  /** Root selector the block also applies to when the system is dark. */
+  systemDark?: string;
+  declarations: Map<string, string>;
+}
+
+/**
+ * Flatten the token tree, inheriting `$type` from parent groups.
+ */
+function flattenTokens(group: JsonObject, path: string[] = [], inheritedType?: string): FlatToken[] {
+  const type = typeof group.$type === 'string' ? group.$type : inheritedType;
+  const tokens: FlatToken[] = [];
+
+  for (const [key, child] of Object.entries(group)) {
+    if (key.startsWith('$') || !isObject(child)) continue;
+    if ('$value' in child) {
+      const token = child as unknown as DtcgToken;
+      tokens.push({ path: [...path, key], type: token.$type ?? type, value: token.$value });
+    } else {
+      tokens.push(...flattenTokens(child, [...path, key], type));
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Pull `light`/`dark` and `scheme.<name>` groups out of a token path.
+ */
+function splitModes(path: string[]): { path: string[]; mode?: string; scheme?: string } {
+  const rest: string[] = [];
+  let mode: string | undefined;
+  let scheme: string | undefined;
+
+  for (let i = 0; i < path.length; i++) {
+    if (i < path.length - 1 && (path[i] === 'light' || path[i] === 'dark')) {
+      mode = path[i];
+    } else if (path[i] === 'scheme' && i < path.length - 2) {
+      scheme = path[++i];
+    } else {
+      rest.push(path[i]);
+    }
+  }
+
+  // An optional leading `md.sys` namespace is implied by the prefix
+  if (rest[0] === 'md' && rest[1] === 'sys') rest.splice(0, 2);
+  return { path: rest, mode, scheme };
+}
+
+function selectorsFor(mode?: string, scheme?: string): string[] {
+  if (scheme && scheme !== 'default') {
+    const attr = `[data-scheme="${scheme}"]`;
+    return mode === 'dark' ? [`[data-theme="dark"]${attr}`] : [attr];
+  }
+  if (mode === 'dark') return ['[data-theme="dark"]'];
+  if (mode === 'light') return [':root', '[data-theme="light"]'];
+  return [':root'];
+}
+
+/**
+ * Dark tokens also apply in `system` mode, which leaves `data-theme` unset
+ * on the root.
+ */
+function systemDarkSelectorFor(mode?: string, scheme?: string): string | undefined {
+  if (mode !== 'dark') return undefined;
+  const attr = scheme && scheme !== 'default' ? `[data-scheme="${scheme}"]` : '';
+  return `:root:not([data-theme="light"])${attr}`;
+}
+
+function cssVar(path: string[]): string {
+  return PREFIX + path.map(kebabCase).join('-');
+}
+
+/**
+ * Resolve `{group.token}` aliases to `var()` references.
+ */
+function resolveAlias(value: Json): Json {
+  if (typeof value === 'string') {
+    const alias = value.match(/^\{([^}]+)\}$/);
+    if (alias) return `var(${cssVar(splitModes(alias[1].split('.')).path)})`;
+  }
+  return value;
+}
+
+function isAlias(value: Json): value is string {
+  return typeof value === 'string' && value.startsWith('var(');
+}
+
+/**
+ * CSS declarations for one token. Composite typography tokens expand
+ * into several declarations.
+ */
+function tokenToCss(token: FlatToken, path: string[]): [string, string][] {
+  const value = resolveAlias(token.value);
+  const name = cssVar(path);
+
+  if (isAlias(value)) return [[name, value]];
+
+  switch (token.type) {
+    case 'color':
+      return [[name, colorToCss(value)]];
+    case 'dimension':
+    case 'duration':
+      return [[name, unitToCss(value)]];
+    case 'fontFamily':
+      return [[name, fontFamilyToCss(value)]];
+    case 'cubicBezier':
+      return [[name, Array.isArray(value) ? `cubic-bezier(${value.join(', ')})` : String(value)]];
+    case 'shadow':
+      return [[name, shadowToCss(value)]];
+    case 'typography': {
+      if (!isObject(value)) break;
+      const declarations: [string, string][] = [];
+      const size = value.fontSize !== undefined ? unitToCss(resolveAlias(value.fontSize)) : null;
+      const px = size?.endsWith('px') ? parseFloat(size) : null;
+
+      if (value.fontFamily !== undefined) {
+        declarations.push([`${name}-font`, fontFamilyToCss(resolveAlias(value.fontFamily))]);
+      }
+      if (size) declarations.push([`${name}-size`, size]);
+      if (value.lineHeight !== undefined) {
+        // DTCG line height is a ratio of the font size. Exported ratios are
+        // rounded, so snap back to a tenth of a pixel.
+        const lineHeight = resolveAlias(value.lineHeight);
+        declarations.push([
+          `${name}-line-height`,
+          typeof lineHeight === 'number' && px !== null
+            ? `${Math.round(lineHeight * px * 10) / 10}px`
+            : String(typeof lineHeight === 'number' ? lineHeight : unitToCss(lineHeight)),
+        ]);
+      }
+      if (value.fontWeight !== undefined) {
+        declarations.push([`${name}-weight`, String(resolveAlias(value.fontWeight))]);
+      }
+      if (value.letterSpacing !== undefined) {
+        declarations.push([`${name}-tracking`, unitToCss(resolveAlias(value.letterSpacing))]);
+      }
+      return declarations;
+    }
+  }
+
+  if (typeof value === 'string' || typeof value === 'number') return [[name, String(value)]];
+  throw new Error(`Unsupported token ${token.path.join('.')}: ${JSON.stringify(token.value)}`);
+}
+
+export function dtcgToCss(json: JsonObject): string {
+  const blocks = new Map<string, CssBlock>();
+
+  for (const token of flattenTokens(json)) {
+    const { path, mode, scheme } = splitModes(token.path);
+    const selectors = selectorsFor(mode, scheme);
+    const key = selectors.join(', ');
+
+    if (!blocks.has(key)) {
+      blocks.set(key, { selectors, systemDark: systemDarkSelectorFor(mode, scheme), declarations: new Map() });
+    }
+    for (const [name, value] of tokenToCss(token, path)) {
+      blocks.get(key)!.declarations.set(name, value);
+    }
+  }
+
+  let css = '/* AUTO-GENERATED by scripts/dtcg.ts - DO NOT EDIT */\n';
+  for (const { selectors, systemDark, declarations } of blocks.values()) {
+    const body = (indent: string) =>
+      [...declarations].map(([name, value]) => `${indent}${name}: ${value};\n`).join('');
+
+    css += `\n${selectors.join(', ')} {\n${body('  ')}}\n`;
+    if (systemDark) {
+      css += `\n@media (prefers-color-scheme: dark) {\n  ${systemDark} {\n${body('    ')}  }\n}\n`;
+    }
+  }
+  return css;
+}
+
+/* ==========================================================================
+   EXPORT: theme.css + schemes → DTCG
+   ========================================================================== */
+
+/**
+ * `--md-sys-*` declarations of the first rule whose selector matches exactly.
+ */
+function readDeclarations(css: string, selector: string): Map<string, string> {
+  const declarations = new Map<string, string>();
+  const start = css.indexOf(`${selector} {`);
+  if (start === -1) return declarations;
+
+  const body = css
+    .slice(css.indexOf('{', start) + 1, css.indexOf('\n}', start))
+    .replace(/\/\*[\s\S]*?\*\//g, '');
+
+  for (const declaration of body.split(';')) {
+    const match = declaration.match(/^\s*(--md-sys-[a-z0-9-]+)\s*:\s*([\s\S]+?)\s*$/);
+    if (match) declarations.set(match[1], match[2].replace(/\s+/g, ' '));
+  }
+  return declarations;
+}
+
+function setToken(root: JsonObject, path: string[], token: DtcgToken): void {
+  let node = root;
+  for (const segment of path.slice(0, -1)) {
+    node[segment] ??= {};
+    node = node[segment] as JsonObject;
+  }
+  node[path[path.length - 1]] = token as unknown as Json;
+}
+
+function colorGroup(roles: Map<string, string> | Record<string, string>): JsonObject {
+  const group: JsonObject = { $type: 'color' };
+  for (const [name, value] of Object.entries(roles instanceof Map ? Object.fromEntries(roles) : roles)) {
+    if (!name.startsWith(`${PREFIX}color-`)) continue;
+    group[name.slice(`${PREFIX}color-`.length)] = { $value: cssToColor(value) };
+  }
+  return group;
+}
+
+const TYPESCALE_SUFFIXES = ['-font', '-size', '-line-height', '-weight', '-tracking'];
+
+export function cssToDtcg(css: string): JsonObject {
+  const light = readDeclarations(css, ':root,\n[data-theme="light"]');
+  const dark = readDeclarations(css, '[data-theme="dark"]');
+  // Motion tokens live in their own block so nested themes inherit them
+  const motion = readDeclarations(css, ':root,\n[data-reduced-motion="false"]');
+
+  // theme.css holds the default scheme; the named ones are generated
+  const schemes: JsonObject = {};
+  for (const [name, seed] of Object.entries(COLOR_SCHEME_SEEDS)) {
+    if (name === 'default') continue;
+    const scheme = generateColorScheme(seed);
+    schemes[name] = {
+      $description: `Generated from ${seed}`,
+      light: colorGroup(scheme.light),
+      dark: colorGroup(scheme.dark),
+    };
+  }
+
+  const json: JsonObject = {
+    color: { light: colorGroup(light), dark: colorGroup(dark), scheme: schemes },
+  };
+
+  const typescale = new Map<string, Map<string, string>>();
+
+  for (const [name, value] of [...light, ...motion]) {
+    const [category, ...rest] = name.slice(PREFIX.length).split('-');
+    const key = rest.join('-');
+
+    switch (category) {
+      case 'shape':
+        // Radii are dimensions; the corner family is a plain keyword
+        setToken(
+          json,
+          ['shape', ...splitGroup(key, 'corner')],
+          /^[\d.]/.test(value) ? { $type: 'dimension', $value: cssToUnit(value) } : { $value: value }
+        );
+        break;
+      case 'elevation':
+        setToken(json, ['elevation', key], { $type: 'shadow', $value: cssToShadow(value) });
+        break;
+      case 'motion': {
+        const [group, token] = splitGroup(key, key.startsWith('easing-') ? 'easing' : 'duration');
+        setToken(
+          json,
+          ['motion', group, token],
+          group === 'easing'
+            ? { $type: 'cubicBezier', $value: value.slice('cubic-bezier('.length, -1).split(',').map(Number) }
+            : { $type: 'duration', $value: cssToUnit(value) }
+        );
+        break;
+      }
+      case 'state':
+        setToken(json, ['state', key], { $type: 'number', $value: Number(value) });
+        break;
+      case 'typescale': {
+        const suffix = TYPESCALE_SUFFIXES.find((s) => key.endsWith(s))!;
+        const role = key.slice(0, -suffix.length);
+        if (!typescale.has(role)) typescale.set(role, new Map());
+        typescale.get(role)!.set(suffix.slice(1), value);
+        break;
+      }
+      default:
+        if (value.startsWith('cubic-bezier(')) {
+          const points = value.slice('cubic-bezier('.length, -1).split(',').map(Number);
+          setToken(json, [category, key], { $type: 'cubicBezier', $value: points });
+        } else if (/^[\d.]+m?s$/.test(value)) {
+          setToken(json, [category, key], { $type: 'duration', $value: cssToUnit(value) });
+        } else if (category !== 'color') {
+          setToken(json, [category, key], { $value: value });
+        }
+    }
+  }
+
+  for (const [role, properties] of typescale) {
+    const size = cssToUnit(properties.get('size') ?? '16px');
+    const lineHeight = cssToUnit(properties.get('line-height') ?? '24px');
+    setToken(json, ['typescale', role], {
+      $type: 'typography',
+      $value: {
+        fontFamily: cssToFontFamily(properties.get('font') ?? 'sans-serif'),
+        fontSize: size,
+        fontWeight: Number(properties.get('weight') ?? 400),
+        lineHeight: round(Number(lineHeight.value) / Number(size.value)),
+        letterSpacing: cssToUnit(properties.get('tracking') ?? '0px'),
+      },
+    });
+  }
+
+  return json;
+}
+
+/**
+ * `corner-large` → ['corner', 'large'] when it starts with `group`.
+ */
+function splitGroup(key: string, group: string): string[] {
+  return key.startsWith(`${group}-`) ? [group, key.slice(group.length + 1)] : [key];
+}
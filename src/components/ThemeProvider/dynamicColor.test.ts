@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { colorRoleToCssVar, generateColorScheme, generateCustomColors, isCustomColor } from './dynamicColor';
+
+describe('generateColorScheme', () => {
+  it('matches the pre-generated default scheme', () => {
+    const { variant, light, dark } = generateColorScheme('#6750A4');
+    expect(variant).toBe('tonal-spot');
+    expect(light['--md-sys-color-primary']).toBe('#6750a4');
+    expect(light['--md-sys-color-on-primary-container']).toBe('#22005d');
+    expect(dark['--md-sys-color-primary']).toBe('#cfbcff');
+  });
+
+  it('generates each variant', () => {
+    const tonalSpot = generateColorScheme('#6750A4');
+    const vibrant = generateColorScheme('#6750A4', { variant: 'vibrant' });
+    const monochrome = generateColorScheme('#6750A4', { variant: 'monochrome' });
+    expect(vibrant.light['--md-sys-color-primary']).not.toBe(tonalSpot.light['--md-sys-color-primary']);
+    expect(monochrome.light['--md-sys-color-primary']).toBe('#000000');
+  });
+
+  it('emits the surface container roles', () => {
+    const { light, dark } = generateColorScheme('#006A6A');
+    expect(light['--md-sys-color-surface-container-lowest']).toBe('#ffffff');
+    expect(dark['--md-sys-color-surface-container-highest']).toMatch(/^#[0-9a-f]{6}$/);
+  });
+
+  it('raises contrast at higher levels', () => {
+    const standard = generateColorScheme('#6750A4');
+    const high = generateColorScheme('#6750A4', { contrast: 'high' });
+    expect(high.contrast).toBe('high');
+    expect(high.light['--md-sys-color-primary']).not.toBe(standard.light['--md-sys-color-primary']);
+  });
+
+  it('accepts shorthand hex and normalizes the seed', () => {
+    expect(generateColorScheme('#abc').seed).toBe('#aabbcc');
+  });
+
+  it('rejects invalid seeds', () => {
+    expect(() => generateColorScheme('purple')).toThrow(/Invalid seed color/);
+  });
+});
+
+describe('colorRoleToCssVar', () => {
+  it('kebab-cases role names', () => {
+    expect(colorRoleToCssVar('onPrimaryContainer')).toBe('--md-sys-color-on-primary-container');
+  });
+});
+
+describe('generateCustomColors', () => {
+  it('emits the four roles per color in light and dark', () => {
+    const { light, dark } = generateCustomColors({ success: '#4CAF50' });
+    expect(Object.keys(light)).toEqual([
+      '--md-sys-color-success',
+      '--md-sys-color-on-success',
+      '--md-sys-color-success-container',
+      '--md-sys-color-on-success-container',
+    ]);
+    expect(light['--md-sys-color-success']).toBe('#006d43');
+    expect(dark['--md-sys-color-success']).toBe('#52df9a');
+  });
+
+  it('harmonizes toward the seed unless disabled', () => {
+    const harmonized = generateCustomColors({ brandAccent: '#FF5A00' }, { seed: '#0061A4' });
+    const exact = generateCustomColors(
+      { brandAccent: { value: '#FF5A00', harmonize: false } },
+      { seed: '#0061A4' }
+    );
+    expect(harmonized.light['--md-sys-color-brand-accent']).not.toBe(
+      exact.light['--md-sys-color-brand-accent']
+    );
+  });
+
+  it('is included by generateColorScheme', () => {
+    const scheme = generateColorScheme('#6750A4', { customColors: { warning: '#7C5800' } });
+    expect(scheme.light['--md-sys-color-on-warning-container']).toBeDefined();
+  });
+
+  it('throws on invalid names and colors', () => {
+    expect(() => generateCustomColors({ 'Bad name': '#fff' })).toThrow();
+    expect(() => generateCustomColors({ success: 'green' })).toThrow('Invalid custom color');
+  });
+});
+
+describe('isCustomColor', () => {
+  it('accepts the entries generateCustomColors accepts', () => {
+    expect(isCustomColor('success', '#4CAF50')).toBe(true);
+    expect(isCustomColor('brand-accent', { value: '#FF5A00', harmonize: false })).toBe(true);
+    expect(isCustomColor('Bad name', '#fff')).toBe(false);
+    expect(isCustomColor('success', 'green')).toBe(false);
+    expect(isCustomColor('success', { value: 42 })).toBe(false);
+    expect(isCustomColor('success', null)).toBe(false);
+  });
+});
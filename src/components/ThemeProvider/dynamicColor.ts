@@ -0,0 +1,485 @@
+import {
+  argbFromHex,
+  hexFromArgb,
+  themeFromSourceColor,
+  Blend,
+  CorePalette,
+  DynamicScheme,
+  Hct,
+  MaterialDynamicColors,
+  SchemeContent,
+  SchemeExpressive,
+  SchemeFidelity,
+  SchemeFruitSalad,
+  SchemeMonochrome,
+  SchemeNeutral,
+  SchemeRainbow,
+  SchemeTonalSpot,
+  SchemeVibrant,
+  TonalPalette,
+} from '@material/material-color-utilities';
+
+/**
+ * Material Design 3 Dynamic Color
+ *
+ * Generates the full `--md-sys-color-*` role set from a single seed color
+ * using the HCT tonal palettes from `@material/material-color-utilities`.
+ * Shared by `ThemeProvider` (runtime) and `scripts/build-themes.ts` (build)
+ * so both produce identical values for the same seed.
+ *
+ * @see https://m3.material.io/styles/color/dynamic-color/overview
+ */
+
+/**
+ * Map of CSS custom property name (e.g. `--md-sys-color-primary`) to a hex value.
+ */
+export type ColorRoles = Record<string, string>;
+
+export interface GeneratedColorScheme {
+  /** The normalized seed color the scheme was generated from. */
+  seed: string;
+  /** The variant the scheme was generated with. */
+  variant: SchemeVariant;
+  /** The contrast level the scheme was generated with. */
+  contrast: ContrastLevel;
+  light: ColorRoles;
+  dark: ColorRoles;
+}
+
+/**
+ * Seeds of the pre-generated color schemes shipped in `schemes.css`.
+ */
+export const COLOR_SCHEME_SEEDS = {
+  default: '#6750A4',
+  teal: '#006A6A',
+  blue: '#0061A4',
+  green: '#386A20',
+  orange: '#A03D00',
+  pink: '#984061',
+} as const;
+
+/* ==========================================================================
+   SCHEME VARIANTS
+   ========================================================================== */
+
+/**
+ * Material dynamic-scheme variants.
+ *
+ * @see https://m3.material.io/styles/color/choosing-a-scheme
+ */
+export type SchemeVariant =
+  | 'tonal-spot'
+  | 'vibrant'
+  | 'expressive'
+  | 'fidelity'
+  | 'content'
+  | 'neutral'
+  | 'monochrome'
+  | 'rainbow'
+  | 'fruit-salad';
+
+type SchemeConstructor = new (
+  sourceColorHct: Hct,
+  isDark: boolean,
+  contrastLevel: number
+) => DynamicScheme;
+
+const SCHEME_CONSTRUCTORS: Record<SchemeVariant, SchemeConstructor> = {
+  'tonal-spot': SchemeTonalSpot,
+  vibrant: SchemeVibrant,
+  expressive: SchemeExpressive,
+  fidelity: SchemeFidelity,
+  content: SchemeContent,
+  neutral: SchemeNeutral,
+  monochrome: SchemeMonochrome,
+  rainbow: SchemeRainbow,
+  'fruit-salad': SchemeFruitSalad,
+};
+
+/**
+ * All supported variants, default first.
+ */
+export const SCHEME_VARIANTS = Object.keys(SCHEME_CONSTRUCTORS) as SchemeVariant[];
+
+export const DEFAULT_SCHEME_VARIANT: SchemeVariant = 'tonal-spot';
+
+/* ==========================================================================
+   CONTRAST LEVELS
+   ========================================================================== */
+
+/**
+ * Contrast levels defined by the M3 color system.
+ *
+ * @see https://m3.material.io/styles/color/system/how-the-system-works#contrast
+ */
+export type ContrastLevel = 'standard' | 'medium' | 'high';
+
+const CONTRAST_VALUES: Record<ContrastLevel, number> = {
+  standard: 0,
+  medium: 0.5,
+  high: 1,
+};
+
+/**
+ * All supported contrast levels, default first.
+ */
+export const CONTRAST_LEVELS = Object.keys(CONTRAST_VALUES) as ContrastLevel[];
+
+export const DEFAULT_CONTRAST_LEVEL: ContrastLevel = 'standard';
+
+/* ==========================================================================
+   COLOR ROLES
+   ========================================================================== */
+
+/**
+ * Roles emitted for every scheme, in output order.
+ */
+const COLOR_ROLES = [
+  'primary',
+  'onPrimary',
+  'primaryContainer',
+  'onPrimaryContainer',
+  'secondary',
+  'onSecondary',
+  'secondaryContainer',
+  'onSecondaryContainer',
+  'tertiary',
+  'onTertiary',
+  'tertiaryContainer',
+  'onTertiaryContainer',
+  'error',
+  'onError',
+  'errorContainer',
+  'onErrorContainer',
+  'background',
+  'onBackground',
+  'surface',
+  'onSurface',
+  'surfaceVariant',
+  'onSurfaceVariant',
+  'outline',
+  'outlineVariant',
+  'shadow',
+  'scrim',
+  'inverseSurface',
+  'inverseOnSurface',
+  'inversePrimary',
+  'surfaceDim',
+  'surfaceBright',
+  'surfaceContainerLowest',
+  'surfaceContainerLow',
+  'surfaceContainer',
+  'surfaceContainerHigh',
+  'surfaceContainerHighest',
+  'surfaceTint',
+] as const satisfies readonly (keyof typeof MaterialDynamicColors)[];
+
+/**
+ * Surface roles that the legacy `Scheme` does not emit, expressed as tones
+ * of the neutral palette.
+ *
+ * @see https://m3.material.io/styles/color/roles#surface
+ */
+const SURFACE_TONES = {
+  light: {
+    surfaceDim: 87,
+    surfaceBright: 98,
+    surfaceContainerLowest: 100,
+    surfaceContainerLow: 96,
+    surfaceContainer: 94,
+    surfaceContainerHigh: 92,
+    surfaceContainerHighest: 90,
+  },
+  dark: {
+    surfaceDim: 6,
+    surfaceBright: 24,
+    surfaceContainerLowest: 4,
+    surfaceContainerLow: 10,
+    surfaceContainer: 12,
+    surfaceContainerHigh: 17,
+    surfaceContainerHighest: 22,
+  },
+} as const;
+
+const HEX_COLOR = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Whether the value is a `#rgb` or `#rrggbb` hex color.
+ */
+export function isHexColor(value: string): boolean {
+  return HEX_COLOR.test(value.trim());
+}
+
+/**
+ * Normalize a hex color to lowercase `#rrggbb`, or null if invalid.
+ */
+function normalizeHex(value: string): string | null {
+  if (!isHexColor(value)) return null;
+  let hex = value.trim().replace('#', '');
+  if (hex.length === 3) {
+    hex = hex.split('').map((c) => c + c).join('');
+  }
+  return `#${hex.toLowerCase()}`;
+}
+
+/**
+ * Convert a camelCase role name to its CSS custom property.
+ * `onPrimaryContainer` → `--md-sys-color-on-primary-container`
+ */
+export function colorRoleToCssVar(role: string): string {
+  return `--md-sys-color-${role.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase()}`;
+}
+
+function toRoles(scheme: DynamicScheme): ColorRoles {
+  const roles: ColorRoles = {};
+  for (const role of COLOR_ROLES) {
+    roles[colorRoleToCssVar(role)] = hexFromArgb(MaterialDynamicColors[role].getArgb(scheme));
+  }
+  return roles;
+}
+
+/**
+ * Standard-contrast tonal-spot roles, from the legacy `Scheme` the shipped
+ * palettes (`schemes.css`, `theme.css`) were generated with. Kept so the
+ * default output does not change; surface containers and the surface tint
+ * are added on top.
+ */
+function toLegacyRoles(argb: number, isDark: boolean): ColorRoles {
+  const theme = themeFromSourceColor(argb);
+  const scheme = isDark ? theme.schemes.dark : theme.schemes.light;
+  const roles: ColorRoles = {};
+  for (const [key, value] of Object.entries(scheme.toJSON())) {
+    roles[colorRoleToCssVar(key)] = hexFromArgb(value);
+  }
+  for (const [key, tone] of Object.entries(SURFACE_TONES[isDark ? 'dark' : 'light'])) {
+    roles[colorRoleToCssVar(key)] = hexFromArgb(theme.palettes.neutral.tone(tone));
+  }
+  roles[colorRoleToCssVar('surfaceTint')] = hexFromArgb(scheme.primary);
+  return roles;
+}
+
+/**
+ * Tonal-spot scheme built from the legacy core palettes, so raising the
+ * contrast keeps the hues of the standard-contrast roles.
+ */
+function tonalSpotScheme(argb: number, isDark: boolean, contrastLevel: number): DynamicScheme {
+  const palette = CorePalette.of(argb);
+  return new DynamicScheme({
+    sourceColorArgb: argb,
+    variant: new SchemeTonalSpot(Hct.fromInt(argb), isDark, contrastLevel).variant,
+    contrastLevel,
+    isDark,
+    primaryPalette: palette.a1,
+    secondaryPalette: palette.a2,
+    tertiaryPalette: palette.a3,
+    neutralPalette: palette.n1,
+    neutralVariantPalette: palette.n2,
+  });
+}
+
+function generateRoles(
+  argb: number,
+  variant: SchemeVariant,
+  contrast: ContrastLevel,
+  isDark: boolean
+): ColorRoles {
+  if (variant === 'tonal-spot') {
+    return contrast === 'standard'
+      ? toLegacyRoles(argb, isDark)
+      : toRoles(tonalSpotScheme(argb, isDark, CONTRAST_VALUES[contrast]));
+  }
+  const Scheme = SCHEME_CONSTRUCTORS[variant];
+  return toRoles(new Scheme(Hct.fromInt(argb), isDark, CONTRAST_VALUES[contrast]));
+}
+
+export interface GenerateColorSchemeOptions {
+  /**
+   * Dynamic-scheme variant.
+   * @default 'tonal-spot'
+   */
+  variant?: SchemeVariant;
+
+  /**
+   * Contrast level of the generated roles.
+   * @default 'standard'
+   */
+  contrast?: ContrastLevel;
+
+  /**
+   * Extra named color roles to generate alongside the scheme,
+   * harmonized toward the seed color.
+   */
+  customColors?: CustomColors;
+}
+
+/**
+ * Generate light and dark color roles from a seed color.
+ *
+ * @param seedColor Hex color (`#rgb` or `#rrggbb`).
+ * @throws If `seedColor` is not a valid hex color.
+ *
+ * @example
+ * ```ts
+ * const { light } = generateColorScheme('#0B57D0', { variant: 'vibrant', contrast: 'high' });
+ * light['--md-sys-color-primary'];
+ * ```
+ */
+export function generateColorScheme(
+  seedColor: string,
+  {
+    variant = DEFAULT_SCHEME_VARIANT,
+    contrast = DEFAULT_CONTRAST_LEVEL,
+    customColors,
+  }: GenerateColorSchemeOptions = {}
+): GeneratedColorScheme {
+  const seed = normalizeHex(seedColor);
+  if (!seed) {
+    throw new Error(`Invalid seed color: "${seedColor}". Expected a hex color like #6750A4.`);
+  }
+
+  const source = argbFromHex(seed);
+  const custom = customColors ? generateCustomColors(customColors, { seed, contrast }) : null;
+
+  return {
+    seed,
+    variant,
+    contrast,
+    light: { ...generateRoles(source, variant, contrast, false), ...custom?.light },
+    dark: { ...generateRoles(source, variant, contrast, true), ...custom?.dark },
+  };
+}
+
+/* ==========================================================================
+   CUSTOM COLORS
+   ========================================================================== */
+
+export interface CustomColor {
+  /**
+   * Hex source color.
+   */
+  value: string;
+
+  /**
+   * Shift the hue toward the seed color so it sits well with the scheme.
+   * @default true
+   */
+  harmonize?: boolean;
+}
+
+/**
+ * Named custom colors, e.g. `{ success: '#386A20', brand: { value: '#FF5A00', harmonize: false } }`.
+ * Names are camelCase or kebab-case and become `--md-sys-color-{name}` roles.
+ */
+export type CustomColors = Record<string, string | CustomColor>;
+
+export interface GenerateCustomColorsOptions {
+  /**
+   * Seed color custom colors are harmonized toward.
+   * @default '#6750A4'
+   */
+  seed?: string;
+
+  /**
+   * Contrast level of the generated roles.
+   * @default 'standard'
+   */
+  contrast?: ContrastLevel;
+}
+
+const CUSTOM_COLOR_NAME = /^[a-z][a-zA-Z0-9-]*$/;
+
+/**
+ * Whether `generateCustomColors` accepts a custom color entry.
+ */
+export function isCustomColor(name: string, color: unknown): color is string | CustomColor {
+  const value = typeof color === 'object' && color !== null ? (color as CustomColor).value : color;
+  return CUSTOM_COLOR_NAME.test(name) && typeof value === 'string' && isHexColor(value);
+}
+
+/**
+ * Tonal-spot scheme whose primary palette keeps the color's full chroma,
+ * so custom colors stay recognizably green, amber, etc.
+ */
+function customColorScheme(argb: number, isDark: boolean, contrastLevel: number): DynamicScheme {
+  const base = new SchemeTonalSpot(Hct.fromInt(argb), isDark, contrastLevel);
+  return new DynamicScheme({
+    sourceColorArgb: argb,
+    variant: base.variant,
+    contrastLevel,
+    isDark,
+    primaryPalette: TonalPalette.fromInt(argb),
+    secondaryPalette: base.secondaryPalette,
+    tertiaryPalette: base.tertiaryPalette,
+    neutralPalette: base.neutralPalette,
+    neutralVariantPalette: base.neutralVariantPalette,
+  });
+}
+
+/**
+ * Generate the `{name}`, `on-{name}`, `{name}-container` and
+ * `on-{name}-container` roles for each custom color, in light and dark.
+ *
+ * @throws If a name or color is invalid.
+ *
+ * @example
+ * ```ts
+ * const { light } = generateCustomColors({ success: '#4CAF50' }, { seed: '#0B57D0' });
+ * light['--md-sys-color-success-container'];
+ * ```
+ */
+export function generateCustomColors(
+  customColors: CustomColors,
+  { seed = COLOR_SCHEME_SEEDS.default, contrast = DEFAULT_CONTRAST_LEVEL }: GenerateCustomColorsOptions = {}
+): { light: ColorRoles; dark: ColorRoles } {
+  const seedHex = normalizeHex(seed);
+  if (!seedHex) {
+    throw new Error(`Invalid seed color: "${seed}". Expected a hex color like #6750A4.`);
+  }
+
+  const light: ColorRoles = {};
+  const dark: ColorRoles = {};
+
+  for (const [name, color] of Object.entries(customColors)) {
+    const { value, harmonize = true } = typeof color === 'string' ? { value: color } : color;
+    const hex = normalizeHex(value);
+    if (!CUSTOM_COLOR_NAME.test(name)) {
+      throw new Error(`Invalid custom color name: "${name}".`);
+    }
+    if (!hex) {
+      throw new Error(`Invalid custom color "${name}": "${value}". Expected a hex color.`);
+    }
+
+    const argb = harmonize
+      ? Blend.harmonize(argbFromHex(hex), argbFromHex(seedHex))
+      : argbFromHex(hex);
+    const role = colorRoleToCssVar(name).replace('--md-sys-color-', '');
+
+    for (const [roles, isDark] of [[light, false], [dark, true]] as const) {
+      const scheme = customColorScheme(argb, isDark, CONTRAST_VALUES[contrast]);
+      const get = (dynamicColor: typeof MaterialDynamicColors.primary) =>
+        hexFromArgb(dynamicColor.getArgb(scheme));
+
+      roles[`--md-sys-color-${role}`] = get(MaterialDynamicColors.primary);
+      roles[`--md-sys-color-on-${role}`] = get(MaterialDynamicColors.onPrimary);
+      roles[`--md-sys-color-${role}-container`] = get(MaterialDynamicColors.primaryContainer);
+      roles[`--md-sys-color-on-${role}-container`] = get(MaterialDynamicColors.onPrimaryContainer);
+    }
+  }
+
+  return { light, dark };
+}
+
+/**
+ * Write color roles onto an element as inline custom properties.
+ * Returns a cleanup function that removes them again.
+ */
+export function applyColorRoles(target: HTMLElement, roles: ColorRoles): () => void {
+  for (const [name, value] of Object.entries(roles)) {
+    target.style.setProperty(name, value);
+  }
+  return () => {
+    for (const name of Object.keys(roles)) {
+      target.style.removeProperty(name);
+    }
+  };
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { sourceColorFromPixels } from './imageColor';
+
+function pixels(...colors: [r: number, g: number, b: number, a: number, count: number][]): Uint8ClampedArray {
+  return new Uint8ClampedArray(colors.flatMap(([r, g, b, a, count]) => Array(count).fill([r, g, b, a]).flat()));
+}
+
+describe('sourceColorFromPixels', () => {
+  it('picks the dominant chromatic color', () => {
+    expect(sourceColorFromPixels(pixels([11, 87, 208, 255, 90], [240, 240, 240, 255, 10]))).toBe('#0b57d0');
+  });
+
+  it('ignores transparent pixels', () => {
+    expect(sourceColorFromPixels(pixels([0, 106, 106, 255, 10], [208, 11, 11, 0, 90]))).toBe('#006a6a');
+  });
+});
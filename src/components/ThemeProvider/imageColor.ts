@@ -0,0 +1,113 @@
+import { argbFromRgb, hexFromArgb, QuantizerCelebi, Score } from '@material/material-color-utilities';
+import {
+  generateColorScheme,
+  type GenerateColorSchemeOptions,
+  type GeneratedColorScheme,
+} from './dynamicColor';
+
+/**
+ * Image-based Color
+ *
+ * Picks a seed color from an image the way M3 dynamic color does for
+ * wallpapers: pixels are quantized to at most 128 colors, then scored for
+ * how well each would work as a theme source.
+ *
+ * @see https://m3.material.io/styles/color/dynamic-color/user-generated-color
+ */
+
+/**
+ * Anything `themeFromImage` can read pixels from. Strings are image URLs;
+ * cross-origin images must be served with CORS headers.
+ */
+export type ImageSource = HTMLImageElement | ImageBitmap | HTMLCanvasElement | Blob | string;
+
+/**
+ * Longest side, in pixels, images are scaled down to before quantizing.
+ * The seed is a dominant color, so full resolution only costs time.
+ */
+const MAX_IMAGE_SIZE = 128;
+
+const MAX_COLORS = 128;
+
+/**
+ * Pick the seed color from RGBA pixel data, e.g. `ImageData.data`.
+ * Pixels that aren't fully opaque are ignored.
+ */
+export function sourceColorFromPixels(data: Uint8ClampedArray): string {
+  const pixels: number[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 255) continue;
+    pixels.push(argbFromRgb(data[i], data[i + 1], data[i + 2]));
+  }
+  const [top] = Score.score(QuantizerCelebi.quantize(pixels, MAX_COLORS));
+  return hexFromArgb(top);
+}
+
+async function loadImage(source: ImageSource): Promise<HTMLImageElement | ImageBitmap | HTMLCanvasElement> {
+  if (typeof source === 'string') {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.src = source;
+    await image.decode();
+    return image;
+  }
+  if (source instanceof Blob) {
+    return createImageBitmap(source);
+  }
+  if (source instanceof HTMLImageElement && !source.complete) {
+    await source.decode();
+  }
+  return source;
+}
+
+function readPixels(image: HTMLImageElement | ImageBitmap | HTMLCanvasElement): Uint8ClampedArray {
+  const sourceWidth = image instanceof HTMLImageElement ? image.naturalWidth : image.width;
+  const sourceHeight = image instanceof HTMLImageElement ? image.naturalHeight : image.height;
+  if (!sourceWidth || !sourceHeight) {
+    throw new Error('Cannot read colors from an empty image.');
+  }
+
+  const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(sourceWidth, sourceHeight));
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Cannot read colors from the image: canvas 2D context is unavailable.');
+  }
+  context.drawImage(image, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height).data;
+}
+
+/**
+ * Pick the seed color of an image, as a hex color.
+ *
+ * @throws If the image fails to load, is empty, or is cross-origin without CORS.
+ */
+export async function sourceColorFromImage(source: ImageSource): Promise<string> {
+  const image = await loadImage(source);
+  try {
+    return sourceColorFromPixels(readPixels(image));
+  } finally {
+    if (image !== source && 'close' in image) image.close();
+  }
+}
+
+/**
+ * Generate light and dark color roles from the seed color of an image.
+ * The result is the same as `generateColorScheme` for that seed.
+ *
+ * @example
+ * ```ts
+ * const { seed, light } = await themeFromImage(coverArt, { variant: 'content' });
+ * ```
+ */
+export async function themeFromImage(
+  source: ImageSource,
+  options?: GenerateColorSchemeOptions
+): Promise<GeneratedColorScheme> {
+  return generateColorScheme(await sourceColorFromImage(source), options);
+}
@@ -1 +1,10 @@
 export * from './ThemeProvider';
+export * from './ThemeScript';
+export * from './dynamicColor';
+export * from './themeStorage';
+export * from './shape';
+export * from './typography';
+export * from './contrast';
+export * from './imageColor';
+export * from './themeTransition';
+export * from './colorSchemes';
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { shapeTokens } from './shape';
+
+describe('shapeTokens', () => {
+  it('scales the default radii by a multiplier, leaving full alone', () => {
+    expect(shapeTokens({ shape: 0.5 })).toEqual({
+      '--md-sys-shape-corner-extra-small': '2px',
+      '--md-sys-shape-corner-small': '4px',
+      '--md-sys-shape-corner-medium': '6px',
+      '--md-sys-shape-corner-large': '8px',
+      '--md-sys-shape-corner-extra-large': '14px',
+    });
+  });
+
+  it('uses explicit radii and the corner family', () => {
+    expect(shapeTokens({ shape: { small: 2, large: '0.5rem' }, cornerFamily: 'cut' })).toEqual({
+      '--md-sys-shape-corner-small': '2px',
+      '--md-sys-shape-corner-large': '0.5rem',
+      '--md-sys-shape-corner-family': 'bevel',
+    });
+    expect(shapeTokens({})).toEqual({});
+  });
+
+  it('throws on negative values', () => {
+    expect(() => shapeTokens({ shape: -1 })).toThrow(/Invalid shape multiplier/);
+    expect(() => shapeTokens({ shape: { medium: -4 } })).toThrow(/Invalid "medium" corner radius/);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Material Design 3 Shape Theming
+ *
+ * Rewrites the `--md-sys-shape-corner-*` radii and the corner family that
+ * components read. Cut corners use CSS `corner-shape: bevel`; browsers
+ * without it fall back to rounded corners of the same size.
+ *
+ * @see https://m3.material.io/styles/shape/corner-radius-scale
+ */
+
+export type ShapeCorner = 'extra-small' | 'small' | 'medium' | 'large' | 'extra-large' | 'full';
+
+/**
+ * A multiplier applied to the default radii (`full` is left alone), or
+ * explicit radii per corner size. Numbers are pixels.
+ *
+ * @example
+ * ```ts
+ * 0.5                                 // half the default radii
+ * { small: 2, medium: 4, large: '0.5rem' }
+ * ```
+ */
+export type ShapeScale = number | Partial<Record<ShapeCorner, number | string>>;
+
+export type CornerFamily = 'rounded' | 'cut';
+
+/**
+ * Default corner radii in pixels, matching theme.css.
+ */
+export const DEFAULT_SHAPE_SCALE: Record<Exclude<ShapeCorner, 'full'>, number> = {
+  'extra-small': 4,
+  small: 8,
+  medium: 12,
+  large: 16,
+  'extra-large': 28,
+};
+
+/**
+ * `corner-shape` keyword for each corner family.
+ */
+const CORNER_SHAPES: Record<CornerFamily, string> = {
+  rounded: 'round',
+  cut: 'bevel',
+};
+
+export interface ShapeOptions {
+  shape?: ShapeScale;
+  cornerFamily?: CornerFamily;
+}
+
+/**
+ * Shape custom properties for the given scale and corner family.
+ * Corners that aren't overridden are left out.
+ *
+ * @throws If a multiplier or radius is negative or not finite.
+ */
+export function shapeTokens({ shape, cornerFamily }: ShapeOptions): Record<string, string> {
+  const tokens: Record<string, string> = {};
+
+  if (typeof shape === 'number') {
+    if (!Number.isFinite(shape) || shape < 0) {
+      throw new Error(`Invalid shape multiplier: ${shape}. Expected a number of 0 or more.`);
+    }
+    for (const [corner, radius] of Object.entries(DEFAULT_SHAPE_SCALE)) {
+      tokens[`--md-sys-shape-corner-${corner}`] = `${radius * shape}px`;
+    }
+  } else if (shape) {
+    for (const [corner, radius] of Object.entries(shape)) {
+      if (radius === undefined) continue;
+      if (typeof radius === 'number' && (!Number.isFinite(radius) || radius < 0)) {
+        throw new Error(`Invalid "${corner}" corner radius: ${radius}.`);
+      }
+      tokens[`--md-sys-shape-corner-${corner}`] = typeof radius === 'number' ? `${radius}px` : radius;
+    }
+  }
+
+  if (cornerFamily) {
+    tokens['--md-sys-shape-corner-family'] = CORNER_SHAPES[cornerFamily];
+  }
+
+  return tokens;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createMemoryStorage,
+  getThemeAttributes,
+  getThemeFromCookies,
+  getThemeScript,
+  resolveThemeStorage,
+} from './themeStorage';
+
+describe('getThemeFromCookies', () => {
+  it('reads prefixed JSON cookies', () => {
+    const header = `other=1; md-theme-mode=${encodeURIComponent('"dark"')}; md-color-scheme=%22teal%22`;
+    expect(getThemeFromCookies(header)).toEqual({ mode: 'dark', colorScheme: 'teal' });
+  });
+
+  it('ignores malformed and foreign cookies', () => {
+    expect(getThemeFromCookies('md-theme-mode=dark; app-theme-mode=%22light%22')).toEqual({});
+    expect(getThemeFromCookies('app-theme-mode=%22light%22', 'app')).toEqual({ mode: 'light' });
+  });
+
+  it('drops values that are not valid settings', () => {
+    const header = [
+      `md-theme-mode=${encodeURIComponent('{}')}`,
+      `md-color-scheme=${encodeURIComponent('"<teal>"')}`,
+      `md-seed-color=${encodeURIComponent('"purple"')}`,
+      `md-scheme-variant=${encodeURIComponent('"vibrant"')}`,
+      `md-contrast=${encodeURIComponent('"extreme"')}`,
+    ].join('; ');
+    expect(getThemeFromCookies(header)).toEqual({ variant: 'vibrant' });
+  });
+});
+
+describe('getThemeAttributes', () => {
+  it('omits defaults and system settings', () => {
+    expect(getThemeAttributes({ mode: 'system', colorScheme: 'default', contrast: 'system' })).toEqual({});
+    expect(getThemeAttributes({ mode: 'dark', colorScheme: 'pink', variant: 'vibrant', contrast: 'high' })).toEqual({
+      'data-theme': 'dark',
+      'data-scheme': 'pink',
+      'data-scheme-variant': 'vibrant',
+      'data-contrast': 'high',
+    });
+  });
+});
+
+describe('getThemeScript', () => {
+  it('produces a standalone script', () => {
+    const script = getThemeScript({ storageKeyPrefix: '</script>' });
+    expect(script).not.toContain('</script>');
+    expect(() => new Function(script)).not.toThrow();
+  });
+});
+
+describe('createMemoryStorage', () => {
+  it('notifies subscribers of changed keys only', () => {
+    const storage = createMemoryStorage({ 'md-theme-mode': '"dark"' });
+    const changes: (string | null)[] = [];
+    const unsubscribe = storage.subscribe!((key) => changes.push(key));
+
+    storage.set('md-theme-mode', '"dark"');
+    storage.set('md-theme-mode', '"light"');
+    unsubscribe();
+    storage.set('md-contrast', '"high"');
+
+    expect(changes).toEqual(['md-theme-mode']);
+    expect(storage.get('md-theme-mode')).toBe('"light"');
+  });
+
+  it('shares built-in adapters by name', () => {
+    expect(resolveThemeStorage('memory')).toBe(resolveThemeStorage('memory'));
+  });
+});
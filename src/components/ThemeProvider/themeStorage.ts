@@ -0,0 +1,386 @@
+import {
+  isHexColor,
+  CONTRAST_LEVELS,
+  DEFAULT_CONTRAST_LEVEL,
+  DEFAULT_SCHEME_VARIANT,
+  SCHEME_VARIANTS,
+  type ContrastLevel,
+  type SchemeVariant,
+} from './dynamicColor';
+import type { ColorScheme, ThemeContrast, ThemeMode } from './ThemeProvider';
+
+/**
+ * Theme Persistence
+ *
+ * Reads and writes ThemeProvider settings, and builds the inline script
+ * that applies them before first paint. Values are stored as JSON under
+ * `${storageKeyPrefix}-${suffix}` keys.
+ */
+
+export interface ThemeSettings {
+  mode: ThemeMode;
+  colorScheme: ColorScheme;
+  seedColor: string | null;
+  variant: SchemeVariant;
+  contrast: ThemeContrast;
+}
+
+/**
+ * Storage key suffix of each setting.
+ */
+export const THEME_STORAGE_KEYS: Record<keyof ThemeSettings, string> = {
+  mode: 'theme-mode',
+  colorScheme: 'color-scheme',
+  seedColor: 'seed-color',
+  variant: 'scheme-variant',
+  contrast: 'contrast',
+};
+
+/**
+ * Whether a stored value can be used for each setting. Values written by
+ * other versions or edited by hand fall back to the default.
+ */
+export const THEME_SETTING_VALIDATORS: {
+  [K in keyof ThemeSettings]: (value: unknown) => value is ThemeSettings[K];
+} = {
+  mode: (value): value is ThemeMode => value === 'light' || value === 'dark' || value === 'system',
+  colorScheme: (value): value is ColorScheme => typeof value === 'string' && /^[a-z][a-z0-9-]*$/.test(value),
+  seedColor: (value): value is string | null =>
+    value === null || (typeof value === 'string' && isHexColor(value)),
+  variant: (value): value is SchemeVariant => SCHEME_VARIANTS.includes(value as SchemeVariant),
+  contrast: (value): value is ThemeContrast =>
+    value === 'system' || CONTRAST_LEVELS.includes(value as ContrastLevel),
+};
+
+/* ==========================================================================
+   STORAGE ADAPTERS
+   ========================================================================== */
+
+/**
+ * Backend for persisted theme settings. Values are JSON strings.
+ *
+ * `get` must be synchronous so the first render uses the stored theme;
+ * an adapter backed by a remote API should serve reads from a local cache
+ * and call `subscribe` listeners once fresh values arrive.
+ *
+ * @example
+ * ```ts
+ * const preferencesStorage: ThemeStorageAdapter = {
+ *   get: (key) => preferences.cache[key] ?? null,
+ *   set: (key, value) => preferences.update({ [key]: value }),
+ *   subscribe: (listener) => preferences.onChange((key) => listener(key)),
+ * };
+ * ```
+ */
+export interface ThemeStorageAdapter {
+  get(key: string): string | null;
+  set(key: string, value: string): void;
+  /**
+   * Listen for changes made outside this provider, e.g. in another tab.
+   * `key` is null when every key may have changed.
+   * Returns an unsubscribe function.
+   */
+  subscribe?(listener: (key: string | null) => void): () => void;
+}
+
+/**
+ * Built-in storage adapters.
+ * `'cookie'` lets the server read settings and render the right attributes;
+ * `'memory'` keeps them for the lifetime of the page.
+ */
+export type ThemeStorageType = 'localStorage' | 'sessionStorage' | 'cookie' | 'memory';
+
+/**
+ * Adapter over `localStorage` or `sessionStorage`. Changes made in other
+ * tabs arrive through the window `storage` event.
+ */
+export function createWebStorage(area: 'localStorage' | 'sessionStorage'): ThemeStorageAdapter {
+  return {
+    get: (key) => window[area].getItem(key),
+    set: (key, value) => window[area].setItem(key, value),
+    subscribe: (listener) => {
+      const handleStorage = (e: StorageEvent) => {
+        if (e.storageArea === window[area]) listener(e.key);
+      };
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    },
+  };
+}
+
+export interface CookieStorageOptions {
+  /**
+   * Cookie lifetime in seconds.
+   * @default 31536000 (one year)
+   */
+  maxAge?: number;
+
+  /**
+   * Cookie path.
+   * @default '/'
+   */
+  path?: string;
+}
+
+/**
+ * Find a cookie in a `Cookie` header or `document.cookie` string.
+ */
+function readCookie(cookies: string, name: string): string | null {
+  for (const part of cookies.split(';')) {
+    const index = part.indexOf('=');
+    if (index !== -1 && part.slice(0, index).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(index + 1).trim());
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Adapter over `document.cookie`. Cookies don't fire events, so changes
+ * are broadcast to other tabs over a `BroadcastChannel` where available.
+ */
+export function createCookieStorage({
+  maxAge = 60 * 60 * 24 * 365,
+  path = '/',
+}: CookieStorageOptions = {}): ThemeStorageAdapter {
+  // Opened lazily so server renders never create one
+  let channel: BroadcastChannel | null | undefined;
+  const getChannel = () => {
+    if (channel === undefined) {
+      channel =
+        typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('md-theme-cookie') : null;
+    }
+    return channel;
+  };
+
+  return {
+    get: (key) => readCookie(document.cookie, key),
+    set: (key, value) => {
+      if (readCookie(document.cookie, key) === value) return;
+      document.cookie = `${key}=${encodeURIComponent(value)}; path=${path}; max-age=${maxAge}; samesite=lax`;
+      getChannel()?.postMessage(key);
+    },
+    subscribe: (listener) => {
+      const channel = getChannel();
+      if (!channel) return () => {};
+      const handleMessage = (e: MessageEvent<string>) => listener(e.data);
+      channel.addEventListener('message', handleMessage);
+      return () => channel.removeEventListener('message', handleMessage);
+    },
+  };
+}
+
+/**
+ * In-memory adapter. Providers sharing an instance stay in sync.
+ */
+export function createMemoryStorage(initial: Record<string, string> = {}): ThemeStorageAdapter {
+  const values = new Map(Object.entries(initial));
+  const listeners = new Set<(key: string | null) => void>();
+
+  return {
+    get: (key) => values.get(key) ?? null,
+    set: (key, value) => {
+      if (values.get(key) === value) return;
+      values.set(key, value);
+      listeners.forEach((listener) => listener(key));
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+const builtInStorage = new Map<ThemeStorageType, ThemeStorageAdapter>();
+
+/**
+ * Resolve a storage name to its shared adapter; adapters pass through.
+ */
+export function resolveThemeStorage(
+  storage: ThemeStorageType | ThemeStorageAdapter
+): ThemeStorageAdapter {
+  if (typeof storage !== 'string') return storage;
+
+  let adapter = builtInStorage.get(storage);
+  if (!adapter) {
+    adapter =
+      storage === 'cookie'
+        ? createCookieStorage()
+        : storage === 'memory'
+          ? createMemoryStorage()
+          : createWebStorage(storage);
+    builtInStorage.set(storage, adapter);
+  }
+  return adapter;
+}
+
+/**
+ * Read a stored value. Returns `fallback` when missing, unparsable,
+ * rejected by `isValid` or when storage is unavailable (e.g. during SSR).
+ */
+export function readStoredValue<T>(
+  storage: ThemeStorageAdapter,
+  key: string,
+  fallback: T,
+  isValid?: (value: unknown) => value is T
+): T {
+  if (typeof window === 'undefined') return fallback;
+  try {
+    const stored = storage.get(key);
+    if (!stored) return fallback;
+    const value: unknown = JSON.parse(stored);
+    if (isValid && !isValid(value)) return fallback;
+    return value as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Write a value to storage as JSON.
+ */
+export function writeStoredValue(storage: ThemeStorageAdapter, key: string, value: unknown): void {
+  try {
+    storage.set(key, JSON.stringify(value));
+  } catch {
+    // Storage not available
+  }
+}
+
+/**
+ * Read theme settings from a `Cookie` request header on the server.
+ * Only settings that are present, parse correctly and are valid are
+ * returned.
+ *
+ * @example
+ * ```tsx
+ * const theme = getThemeFromCookies(request.headers.get('cookie') ?? '');
+ *
+ * <html {...getThemeAttributes(theme)}>
+ *   <ThemeProvider storage="cookie" defaultMode={theme.mode} defaultColorScheme={theme.colorScheme}>
+ * ```
+ */
+export function getThemeFromCookies(
+  cookieHeader: string,
+  storageKeyPrefix = 'md'
+): Partial<ThemeSettings> {
+  const settings: Record<string, unknown> = {};
+  for (const [setting, suffix] of Object.entries(THEME_STORAGE_KEYS)) {
+    const raw = readCookie(cookieHeader, `${storageKeyPrefix}-${suffix}`);
+    if (!raw) continue;
+    try {
+      const value: unknown = JSON.parse(raw);
+      if (THEME_SETTING_VALIDATORS[setting as keyof ThemeSettings](value)) settings[setting] = value;
+    } catch {
+      // Ignore malformed cookies
+    }
+  }
+  return settings as Partial<ThemeSettings>;
+}
+
+/**
+ * The `data-*` attributes ThemeProvider sets on the document root for the
+ * given settings, for rendering onto `<html>` on the server.
+ * `'system'` mode and contrast are left to the client.
+ */
+export function getThemeAttributes(settings: Partial<ThemeSettings>): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const { mode, colorScheme, variant, contrast } = settings;
+
+  if (mode && mode !== 'system') attributes['data-theme'] = mode;
+  if (colorScheme && colorScheme !== 'default') attributes['data-scheme'] = colorScheme;
+  if (variant && variant !== DEFAULT_SCHEME_VARIANT) attributes['data-scheme-variant'] = variant;
+  if (contrast && contrast !== 'system' && contrast !== DEFAULT_CONTRAST_LEVEL) {
+    attributes['data-contrast'] = contrast;
+  }
+
+  return attributes;
+}
+
+/* ==========================================================================
+   INLINE SCRIPT
+   ========================================================================== */
+
+export interface ThemeScriptOptions {
+  /**
+   * Storage the ThemeProvider persists to. Memory and custom adapters
+   * can't be read before hydration.
+   * @default 'localStorage'
+   */
+  storage?: 'localStorage' | 'sessionStorage' | 'cookie';
+
+  /**
+   * Storage key prefix used by the ThemeProvider.
+   * @default 'md'
+   */
+  storageKeyPrefix?: string;
+
+  /**
+   * Settings to apply when nothing is stored. Should match the
+   * ThemeProvider's `default*` props.
+   */
+  defaults?: Partial<ThemeSettings>;
+}
+
+/**
+ * Runs in the browser before first paint. Kept as plain source rather than
+ * a serialized function so bundler transforms can't leak helpers into it.
+ * Arguments: prefix, storage, keys, defaults.
+ */
+const APPLY_STORED_THEME = `function (prefix, storage, keys, defaults) {
+  function read(setting) {
+    var key = prefix + '-' + keys[setting];
+    var raw = null;
+    if (storage === 'cookie') {
+      var parts = document.cookie.split(';');
+      for (var i = 0; i < parts.length; i++) {
+        var index = parts[i].indexOf('=');
+        if (index !== -1 && parts[i].slice(0, index).trim() === key) {
+          raw = decodeURIComponent(parts[i].slice(index + 1).trim());
+        }
+      }
+    } else {
+      raw = window[storage].getItem(key);
+    }
+    try {
+      return raw ? JSON.parse(raw) : defaults[setting] || null;
+    } catch (e) {
+      return defaults[setting] || null;
+    }
+  }
+  function set(name, value, skip) {
+    if (value && value !== skip) document.documentElement.setAttribute(name, value);
+    else document.documentElement.removeAttribute(name);
+  }
+  try {
+    var contrast = read('contrast');
+    if (contrast === 'system') {
+      contrast = matchMedia('(prefers-contrast: more)').matches ? 'high' : 'standard';
+    }
+    set('data-theme', read('mode'), 'system');
+    set('data-scheme', read('colorScheme'), 'default');
+    set('data-scheme-variant', read('variant'), '${DEFAULT_SCHEME_VARIANT}');
+    set('data-contrast', contrast, '${DEFAULT_CONTRAST_LEVEL}');
+  } catch (e) {}
+}`;
+
+/**
+ * Build the inline script that applies stored theme attributes to the
+ * document root. Prefer the `<ThemeScript />` component in React apps.
+ */
+export function getThemeScript({
+  storage = 'localStorage',
+  storageKeyPrefix = 'md',
+  defaults = {},
+}: ThemeScriptOptions = {}): string {
+  const args = [storageKeyPrefix, storage, THEME_STORAGE_KEYS, defaults]
+    .map((arg) => JSON.stringify(arg).replace(/</g, '\\u003c'))
+    .join(',');
+  return `(${APPLY_STORED_THEME})(${args})`;
+}
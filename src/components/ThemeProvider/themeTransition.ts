@@ -0,0 +1,116 @@
+import { animate, prefersReducedMotion, resolveMotion, type MotionDuration, type MotionEasing } from '../../utils';
+
+/**
+ * Theme Transitions
+ *
+ * Animates a change of mode or color scheme instead of swapping colors in
+ * one frame. With the View Transitions API the old page is snapshotted and
+ * the new one revealed over it; elsewhere, and for subtree providers, the
+ * colors themselves transition through CSS.
+ *
+ * @see https://developer.mozilla.org/docs/Web/API/View_Transition_API
+ */
+
+/**
+ * `'circle'` reveals the new theme in a circle growing from the origin,
+ * `'fade'` cross-fades it.
+ */
+export type ThemeTransition = 'none' | 'fade' | 'circle';
+
+/**
+ * Where a circular reveal starts: viewport coordinates, an element (its
+ * center), or the pointer event that triggered the change.
+ */
+export type ThemeTransitionOrigin =
+  | { x: number; y: number }
+  | Element
+  | { clientX: number; clientY: number; currentTarget?: EventTarget | null };
+
+export interface ThemeTransitionOptions {
+  type: ThemeTransition;
+  origin?: ThemeTransitionOrigin;
+  /**
+   * Element whose theme changes. Only the document root uses view
+   * transitions; other elements use the CSS fallback.
+   * @default document.documentElement
+   */
+  target?: HTMLElement;
+}
+
+/**
+ * Attribute set on the target while a transition runs, read by the
+ * THEME TRANSITIONS rules in theme.css.
+ */
+const TRANSITION_ATTRIBUTE = 'data-theme-transition';
+
+const DURATION: MotionDuration = 'long2';
+const EASING: MotionEasing = 'emphasized-decelerate';
+
+function center(element: Element): { x: number; y: number } {
+  const rect = element.getBoundingClientRect();
+  return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+}
+
+function resolveOrigin(origin: ThemeTransitionOrigin | undefined): { x: number; y: number } {
+  if (!origin) return { x: window.innerWidth / 2, y: window.innerHeight / 2 };
+  if (origin instanceof Element) return center(origin);
+  if ('x' in origin) return origin;
+  // Keyboard-triggered clicks report 0,0; start from the control instead
+  if (origin.clientX === 0 && origin.clientY === 0 && origin.currentTarget instanceof Element) {
+    return center(origin.currentTarget);
+  }
+  return { x: origin.clientX, y: origin.clientY };
+}
+
+/**
+ * Run `update` (which must apply the new theme to the DOM synchronously)
+ * inside a theme transition. Resolves when the transition has finished.
+ * Reduced motion applies the update without animating.
+ */
+export function startThemeTransition(
+  update: () => void,
+  { type, origin, target }: ThemeTransitionOptions
+): Promise<void> {
+  const root = target ?? document.documentElement;
+
+  if (type === 'none' || prefersReducedMotion(root)) {
+    update();
+    return Promise.resolve();
+  }
+
+  if (root === document.documentElement && typeof document.startViewTransition === 'function') {
+    const { x, y } = resolveOrigin(origin);
+    root.setAttribute(TRANSITION_ATTRIBUTE, type);
+    const transition = document.startViewTransition(update);
+
+    transition.ready
+      .then(() => {
+        const radius = Math.hypot(
+          Math.max(x, window.innerWidth - x),
+          Math.max(y, window.innerHeight - y)
+        );
+        animate(
+          root,
+          type === 'circle'
+            ? { clipPath: [`circle(0px at ${x}px ${y}px)`, `circle(${radius}px at ${x}px ${y}px)`] }
+            : { opacity: [0, 1] },
+          { duration: DURATION, easing: EASING, pseudoElement: '::view-transition-new(root)' }
+        );
+      })
+      .catch(() => {
+        // Skipped transitions still apply the update
+      });
+
+    return transition.finished.finally(() => root.removeAttribute(TRANSITION_ATTRIBUTE));
+  }
+
+  const { duration } = resolveMotion(root, { duration: DURATION });
+  root.setAttribute(TRANSITION_ATTRIBUTE, 'fallback');
+  update();
+  return new Promise((resolve) => {
+    setTimeout(() => {
+      root.removeAttribute(TRANSITION_ATTRIBUTE);
+      resolve();
+    }, duration);
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * Material Design 3 Typography Theming
+ *
+ * Maps the brand and plain typefaces onto the `--md-sys-typescale-*-font`
+ * properties. Display, headline and title-large use the brand typeface;
+ * everything else uses the plain one.
+ *
+ * @see https://m3.material.io/styles/typography/fonts
+ */
+
+export interface TypefaceOptions {
+  /**
+   * Font family for display, headline and title-large text.
+   */
+  brandFont?: string;
+
+  /**
+   * Font family for the remaining title, body and label text.
+   */
+  plainFont?: string;
+}
+
+const BRAND_ROLES = [
+  'display-large',
+  'display-medium',
+  'display-small',
+  'headline-large',
+  'headline-medium',
+  'headline-small',
+  'title-large',
+];
+
+const PLAIN_ROLES = [
+  'title-medium',
+  'title-small',
+  'body-large',
+  'body-medium',
+  'body-small',
+  'label-large',
+  'label-medium',
+  'label-small',
+];
+
+/**
+ * Typescale font-family custom properties for the given typefaces.
+ * Roles whose typeface isn't set are left out.
+ */
+export function typescaleFonts({ brandFont, plainFont }: TypefaceOptions): Record<string, string> {
+  const fonts: Record<string, string> = {};
+  if (brandFont) {
+    for (const role of BRAND_ROLES) fonts[`--md-sys-typescale-${role}-font`] = brandFont;
+  }
+  if (plainFont) {
+    for (const role of PLAIN_ROLES) fonts[`--md-sys-typescale-${role}-font`] = plainFont;
+  }
+  return fonts;
+}
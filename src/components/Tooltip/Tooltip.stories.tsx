@@ -0,0 +1,124 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { Tooltip, RichTooltip } from './Tooltip';
+import { IconButton } from '../IconButton';
+import { Button } from '../Button';
+
+const meta: Meta<typeof Tooltip> = {
+  title: 'Components/Tooltip',
+  component: Tooltip,
+  tags: ['autodocs'],
+  parameters: { layout: 'centered' },
+  argTypes: {
+    placement: {
+      control: 'select',
+      options: ['top', 'bottom', 'left', 'right'],
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof Tooltip>;
+
+const FavoriteIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M12 21.35l-1.45-1.32C5.4 15.36 2 12.28 2 8.5 2 5.42 4.42 3 7.5 3c1.74 0 3.41.81 4.5 2.09C13.09 3.81 14.76 3 16.5 3 19.58 3 22 5.42 22 8.5c0 3.78-3.4 6.86-8.55 11.54L12 21.35z" /></svg>
+);
+const ShareIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M18 16.08c-.76 0-1.44.3-1.96.77L8.91 12.7c.05-.23.09-.46.09-.7s-.04-.47-.09-.7l7.05-4.11c.54.5 1.25.81 2.04.81 1.66 0 3-1.34 3-3s-1.34-3-3-3-3 1.34-3 3c0 .24.04.47.09.7L8.04 9.81C7.5 9.31 6.79 9 6 9c-1.66 0-3 1.34-3 3s1.34 3 3 3c.79 0 1.5-.31 2.04-.81l7.12 4.16c-.05.21-.08.43-.08.65 0 1.61 1.31 2.92 2.92 2.92s2.92-1.31 2.92-2.92-1.31-2.92-2.92-2.92z" /></svg>
+);
+const DeleteIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z" /></svg>
+);
+const InfoIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-6h2v6zm0-8h-2V7h2v2z" /></svg>
+);
+
+/* ==========================================================================
+   PLAIN
+   ========================================================================== */
+
+export const Plain: Story = {
+  args: { content: 'Add to favorites', placement: 'top' },
+  render: (args) => (
+    <Tooltip {...args}>
+      <IconButton aria-label="Favorite"><FavoriteIcon /></IconButton>
+    </Tooltip>
+  ),
+};
+
+/**
+ * Toolbar
+ *
+ * Each icon button is described by its tooltip. Tab through them to see
+ * tooltips on keyboard focus.
+ */
+export const Toolbar: Story = {
+  render: () => (
+    <div style={{ display: 'flex', gap: 8 }}>
+      <Tooltip content="Add to favorites">
+        <IconButton aria-label="Favorite"><FavoriteIcon /></IconButton>
+      </Tooltip>
+      <Tooltip content="Share">
+        <IconButton aria-label="Share"><ShareIcon /></IconButton>
+      </Tooltip>
+      <Tooltip content="Move to trash">
+        <IconButton aria-label="Delete"><DeleteIcon /></IconButton>
+      </Tooltip>
+    </div>
+  ),
+};
+
+/**
+ * Viewport Edge
+ *
+ * Near the edge of the viewport the tooltip flips to the other side of
+ * its trigger and shifts to stay in view.
+ */
+export const ViewportEdge: Story = {
+  parameters: { layout: 'fullscreen' },
+  render: () => (
+    <div style={{ display: 'flex', justifyContent: 'flex-end', padding: 4 }}>
+      <Tooltip content="Tooltips stay inside the viewport" defaultOpen>
+        <IconButton aria-label="Information"><InfoIcon /></IconButton>
+      </Tooltip>
+    </div>
+  ),
+};
+
+/* ==========================================================================
+   RICH
+   ========================================================================== */
+
+export const Rich: Story = {
+  render: () => (
+    <RichTooltip
+      title="Favorites"
+      supportingText="Favorited items appear first in your library and sync across your devices."
+    >
+      <IconButton aria-label="Favorite"><FavoriteIcon /></IconButton>
+    </RichTooltip>
+  ),
+};
+
+/**
+ * Persistent Rich Tooltip
+ *
+ * Opens on click and stays open so its actions can be used; closes on a
+ * click outside or Escape.
+ */
+export const PersistentRich: Story = {
+  render: () => (
+    <RichTooltip
+      persistent
+      title="Grant access"
+      supportingText="Editors can change content and share the file with others."
+      actions={
+        <>
+          <Button variant="text">Learn more</Button>
+          <Button variant="text">Manage</Button>
+        </>
+      }
+    >
+      <IconButton aria-label="About access"><InfoIcon /></IconButton>
+    </RichTooltip>
+  ),
+};
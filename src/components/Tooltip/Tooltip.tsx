@@ -0,0 +1,189 @@
+'use client';
+
+import { forwardRef } from 'react';
+import { createPortal } from 'react-dom';
+import styles from './Tooltip.module.css';
+import { cloneTrigger, useTooltip } from './useTooltip';
+import type { TooltipPlacement } from './position';
+import { Elevation } from '../../internals';
+import { cn, mergeRefs } from '../../utils';
+
+type TooltipBaseProps = {
+  /** The trigger element. It must accept a ref and pointer/focus handlers. */
+  children: React.ReactElement;
+  placement?: TooltipPlacement;
+  /**
+   * Delay before showing on hover or focus, in milliseconds.
+   * @default 500
+   */
+  showDelay?: number;
+  /**
+   * Delay before hiding once the pointer leaves, in milliseconds.
+   * @default 200
+   */
+  hideDelay?: number;
+  open?: boolean;
+  defaultOpen?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  className?: string;
+} & Omit<React.HTMLAttributes<HTMLDivElement>, 'children' | 'content' | 'title'>;
+
+export type TooltipProps = TooltipBaseProps & {
+  /** Short text describing the trigger. */
+  content: React.ReactNode;
+};
+
+/**
+ * Plain Tooltip
+ *
+ * Briefly describes the element it wraps. Shows on hover, keyboard focus
+ * or long press, and is linked to the trigger with `aria-describedby`.
+ *
+ * @see https://m3.material.io/components/tooltips/overview
+ *
+ * @example
+ * ```tsx
+ * <Tooltip content="Add to favorites">
+ *   <IconButton aria-label="Favorite"><FavoriteIcon /></IconButton>
+ * </Tooltip>
+ * ```
+ */
+export const Tooltip = forwardRef<HTMLDivElement, TooltipProps>(
+  (
+    {
+      content,
+      children,
+      placement = 'top',
+      showDelay = 500,
+      hideDelay = 200,
+      open: openProp,
+      defaultOpen,
+      onOpenChange,
+      className,
+      ...props
+    },
+    ref
+  ) => {
+    const { open, container, triggerProps, tooltipProps } = useTooltip({
+      placement,
+      showDelay,
+      hideDelay,
+      open: openProp,
+      defaultOpen,
+      onOpenChange,
+    });
+
+    return (
+      <>
+        {cloneTrigger(children, triggerProps)}
+        {container &&
+          createPortal(
+            <div
+              {...props}
+              {...tooltipProps}
+              ref={mergeRefs(tooltipProps.ref, ref)}
+              role="tooltip"
+              className={cn(styles.tooltip, styles.plain, open && styles.open, className)}
+            >
+              {content}
+            </div>,
+            container
+          )}
+      </>
+    );
+  }
+);
+
+Tooltip.displayName = 'Tooltip';
+
+export type RichTooltipProps = TooltipBaseProps & {
+  /** Optional subhead. */
+  title?: React.ReactNode;
+  supportingText: React.ReactNode;
+  /** Text buttons shown below the supporting text. */
+  actions?: React.ReactNode;
+  /**
+   * Open on click instead of hover, focus and long press, and stay open
+   * until a click outside or Escape.
+   */
+  persistent?: boolean;
+};
+
+/**
+ * Rich Tooltip
+ *
+ * Contextual details about the element it wraps, with an optional title
+ * and actions. Persistent rich tooltips open on click and stay open until
+ * dismissed, so their actions can be reached.
+ *
+ * @example
+ * ```tsx
+ * <RichTooltip
+ *   persistent
+ *   title="Grant access"
+ *   supportingText="Editors can change content and share the file."
+ *   actions={<Button variant="text">Learn more</Button>}
+ * >
+ *   <IconButton aria-label="About access"><InfoIcon /></IconButton>
+ * </RichTooltip>
+ * ```
+ */
+export const RichTooltip = forwardRef<HTMLDivElement, RichTooltipProps>(
+  (
+    {
+      title,
+      supportingText,
+      actions,
+      persistent = false,
+      children,
+      placement = 'bottom',
+      showDelay = 500,
+      hideDelay = 200,
+      open: openProp,
+      defaultOpen,
+      onOpenChange,
+      className,
+      ...props
+    },
+    ref
+  ) => {
+    const { open, container, triggerProps, tooltipProps } = useTooltip({
+      placement,
+      showDelay,
+      hideDelay,
+      persistent,
+      open: openProp,
+      defaultOpen,
+      onOpenChange,
+    });
+
+    return (
+      <>
+        {cloneTrigger(children, triggerProps)}
+        {container &&
+          createPortal(
+            <div
+              {...props}
+              {...tooltipProps}
+              ref={mergeRefs(tooltipProps.ref, ref)}
+              role={persistent ? 'dialog' : 'tooltip'}
+              aria-labelledby={persistent && title ? `${tooltipProps.id}-title` : undefined}
+              className={cn(styles.tooltip, styles.rich, open && styles.open, className)}
+            >
+              <Elevation />
+              {title && (
+                <div id={`${tooltipProps.id}-title`} className={styles.title}>
+                  {title}
+                </div>
+              )}
+              <div className={styles.supportingText}>{supportingText}</div>
+              {actions && <div className={styles.actions}>{actions}</div>}
+            </div>,
+            container
+          )}
+      </>
+    );
+  }
+);
+
+RichTooltip.displayName = 'RichTooltip';
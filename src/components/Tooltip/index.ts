@@ -0,0 +1,4 @@
+export { Tooltip, RichTooltip } from './Tooltip';
+export type { TooltipProps, RichTooltipProps } from './Tooltip';
+export { computeTooltipPosition } from './position';
+export type { TooltipPlacement, TooltipPosition, TooltipPositionOptions } from './position';
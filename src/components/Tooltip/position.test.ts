@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { computeTooltipPosition } from './position';
+
+const viewport = { width: 400, height: 300 };
+const size = { width: 100, height: 24 };
+
+describe('computeTooltipPosition', () => {
+  it('centers the tooltip on the requested side', () => {
+    const anchor = { top: 100, left: 180, width: 40, height: 40 };
+    expect(computeTooltipPosition(anchor, size, 'top', { viewport })).toEqual({ top: 72, left: 150, placement: 'top' });
+    expect(computeTooltipPosition(anchor, size, 'right', { viewport })).toEqual({ top: 108, left: 224, placement: 'right' });
+  });
+
+  it('flips to the opposite side when the requested side is too small', () => {
+    const anchor = { top: 10, left: 180, width: 40, height: 40 };
+    expect(computeTooltipPosition(anchor, size, 'top', { viewport })).toMatchObject({ top: 54, placement: 'bottom' });
+  });
+
+  it('shifts along the side to stay inside the viewport', () => {
+    const anchor = { top: 100, left: 370, width: 24, height: 24 };
+    expect(computeTooltipPosition(anchor, size, 'bottom', { viewport })).toEqual({ top: 128, left: 292, placement: 'bottom' });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tooltip Positioning
+ *
+ * Places a tooltip next to its trigger in viewport coordinates, for use
+ * with `position: fixed`. The tooltip flips to the opposite side when its
+ * side is too small and shifts along the side to stay inside the viewport.
+ */
+
+export type TooltipPlacement = 'top' | 'bottom' | 'left' | 'right';
+
+export interface TooltipPosition {
+  top: number;
+  left: number;
+  /** Side the tooltip ended up on, after flipping. */
+  placement: TooltipPlacement;
+}
+
+export interface TooltipPositionOptions {
+  /** Viewport size, usually the root element's client size. */
+  viewport: { width: number; height: number };
+  /**
+   * Gap between the trigger and the tooltip, in pixels.
+   * @default 4
+   */
+  offset?: number;
+  /**
+   * Minimum distance between the tooltip and the viewport edges, in pixels.
+   * @default 8
+   */
+  margin?: number;
+}
+
+const OPPOSITE: Record<TooltipPlacement, TooltipPlacement> = {
+  top: 'bottom',
+  bottom: 'top',
+  left: 'right',
+  right: 'left',
+};
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(value, max));
+}
+
+/**
+ * Position a tooltip of `size` on the `placement` side of `anchor`.
+ *
+ * @example
+ * ```ts
+ * const { top, left } = computeTooltipPosition(
+ *   trigger.getBoundingClientRect(),
+ *   { width: tooltip.offsetWidth, height: tooltip.offsetHeight },
+ *   'top',
+ *   { viewport: { width: innerWidth, height: innerHeight } }
+ * );
+ * ```
+ */
+export function computeTooltipPosition(
+  anchor: Pick<DOMRect, 'top' | 'left' | 'width' | 'height'>,
+  size: { width: number; height: number },
+  placement: TooltipPlacement,
+  { viewport, offset = 4, margin = 8 }: TooltipPositionOptions
+): TooltipPosition {
+  const right = anchor.left + anchor.width;
+  const bottom = anchor.top + anchor.height;
+
+  const space: Record<TooltipPlacement, number> = {
+    top: anchor.top - margin,
+    bottom: viewport.height - margin - bottom,
+    left: anchor.left - margin,
+    right: viewport.width - margin - right,
+  };
+  const needed = (side: TooltipPlacement) =>
+    offset + (side === 'top' || side === 'bottom' ? size.height : size.width);
+
+  const opposite = OPPOSITE[placement];
+  const side =
+    space[placement] < needed(placement) && space[opposite] > space[placement] ? opposite : placement;
+
+  if (side === 'top' || side === 'bottom') {
+    return {
+      top: side === 'top' ? anchor.top - offset - size.height : bottom + offset,
+      left: clamp(
+        anchor.left + anchor.width / 2 - size.width / 2,
+        margin,
+        viewport.width - margin - size.width
+      ),
+      placement: side,
+    };
+  }
+
+  return {
+    top: clamp(
+      anchor.top + anchor.height / 2 - size.height / 2,
+      margin,
+      viewport.height - margin - size.height
+    ),
+    left: side === 'left' ? anchor.left - offset - size.width : right + offset,
+    placement: side,
+  };
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import {
+  cloneElement,
+  useCallback,
+  useEffect,
+  useId,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useSyncExternalStore,
+} from 'react';
+import { useClickOutside, useControllableState } from '../../hooks';
+import { mergeRefs } from '../../utils';
+import { computeTooltipPosition, type TooltipPlacement } from './position';
+
+/**
+ * How long a touch must be held before the tooltip shows.
+ */
+const LONG_PRESS_DELAY = 500;
+
+/**
+ * How long a tooltip opened by a long press stays after the touch ends.
+ */
+const TOUCH_HIDE_DELAY = 1500;
+
+export interface TooltipTriggerOptions {
+  placement: TooltipPlacement;
+  /** Delay before showing on hover or focus, in milliseconds. */
+  showDelay: number;
+  /** Delay before hiding once the pointer leaves, in milliseconds. */
+  hideDelay: number;
+  /**
+   * Open and close on click instead of hover, focus and long press, and
+   * stay open until a click outside or Escape.
+   */
+  persistent?: boolean;
+  open?: boolean;
+  defaultOpen?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+type TriggerProps = Record<string, unknown> & { ref: React.Ref<HTMLElement> };
+
+const subscribeNever = () => () => {};
+
+/**
+ * The element tooltips are portalled into: `document.body` once hydrated,
+ * `null` during server rendering and hydration.
+ */
+function usePortalContainer(): HTMLElement | null {
+  return useSyncExternalStore(
+    subscribeNever,
+    () => document.body,
+    () => null
+  );
+}
+
+/**
+ * Open state, trigger handlers and positioning shared by Tooltip and
+ * RichTooltip. The surface is rendered into `container` so a transformed
+ * ancestor can't become the containing block of its fixed position.
+ */
+export function useTooltip({
+  placement,
+  showDelay,
+  hideDelay,
+  persistent = false,
+  open: openProp,
+  defaultOpen = false,
+  onOpenChange,
+}: TooltipTriggerOptions) {
+  const id = useId();
+  const container = usePortalContainer();
+  const triggerRef = useRef<HTMLElement>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  const [open, setOpenState] = useControllableState({
+    value: openProp,
+    defaultValue: defaultOpen,
+    onChange: onOpenChange,
+  });
+
+  const setOpen = useCallback(
+    (next: boolean) => {
+      if (next !== open) setOpenState(next);
+    },
+    [open, setOpenState]
+  );
+
+  const schedule = useCallback(
+    (next: boolean, delay: number) => {
+      clearTimeout(timerRef.current);
+      if (delay > 0) {
+        timerRef.current = setTimeout(() => setOpen(next), delay);
+      } else {
+        setOpen(next);
+      }
+    },
+    [setOpen]
+  );
+
+  const cancel = useCallback(() => clearTimeout(timerRef.current), []);
+
+  useEffect(() => cancel, [cancel]);
+
+  // Escape closes from anywhere
+  useEffect(() => {
+    if (!open) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') schedule(false, 0);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [open, schedule]);
+
+  const outsideRefs = useMemo(() => [triggerRef, tooltipRef], []);
+  const handleClickOutside = useCallback(() => schedule(false, 0), [schedule]);
+  useClickOutside(outsideRefs, handleClickOutside, persistent && open);
+
+  // Follow the trigger while open
+  useLayoutEffect(() => {
+    if (!open) return;
+
+    const update = () => {
+      const trigger = triggerRef.current;
+      const tooltip = tooltipRef.current;
+      if (!trigger || !tooltip) return;
+
+      const position = computeTooltipPosition(
+        trigger.getBoundingClientRect(),
+        { width: tooltip.offsetWidth, height: tooltip.offsetHeight },
+        placement,
+        {
+          viewport: {
+            width: document.documentElement.clientWidth,
+            height: document.documentElement.clientHeight,
+          },
+        }
+      );
+      tooltip.style.top = `${position.top}px`;
+      tooltip.style.left = `${position.left}px`;
+      tooltip.dataset.placement = position.placement;
+    };
+
+    update();
+    window.addEventListener('scroll', update, true);
+    window.addEventListener('resize', update);
+    return () => {
+      window.removeEventListener('scroll', update, true);
+      window.removeEventListener('resize', update);
+    };
+  }, [open, placement]);
+
+  const triggerProps: TriggerProps = persistent
+    ? {
+        ref: triggerRef,
+        'aria-describedby': id,
+        'aria-expanded': open,
+        onClick: () => schedule(!open, 0),
+      }
+    : {
+        ref: triggerRef,
+        'aria-describedby': id,
+        onPointerEnter: (e: React.PointerEvent) => {
+          if (e.pointerType === 'mouse') schedule(true, showDelay);
+        },
+        onPointerLeave: (e: React.PointerEvent) => {
+          if (e.pointerType === 'mouse') schedule(false, hideDelay);
+        },
+        onPointerDown: (e: React.PointerEvent) => {
+          if (e.pointerType !== 'mouse') schedule(true, LONG_PRESS_DELAY);
+        },
+        onPointerUp: (e: React.PointerEvent) => {
+          if (e.pointerType === 'mouse') return;
+          if (open) schedule(false, TOUCH_HIDE_DELAY);
+          else cancel();
+        },
+        onPointerCancel: (e: React.PointerEvent) => {
+          if (e.pointerType !== 'mouse' && !open) cancel();
+        },
+        onFocus: (e: React.FocusEvent<HTMLElement>) => {
+          if (e.currentTarget.matches(':focus-visible')) schedule(true, showDelay);
+        },
+        onBlur: () => schedule(false, 0),
+      };
+
+  // Moving the pointer onto an interactive tooltip keeps it open
+  const tooltipProps = {
+    ref: tooltipRef,
+    id,
+    onPointerEnter: persistent ? undefined : cancel,
+    onPointerLeave: persistent ? undefined : () => schedule(false, hideDelay),
+  };
+
+  return { open, container, triggerProps, tooltipProps };
+}
+
+/**
+ * Clone the trigger element with the tooltip's props, calling the
+ * trigger's own handlers first and keeping its ref and description.
+ */
+export function cloneTrigger(trigger: React.ReactElement, triggerProps: TriggerProps): React.ReactElement {
+  const childProps = trigger.props as Record<string, unknown>;
+  const merged: Record<string, unknown> = { ...triggerProps };
+
+  for (const [name, handler] of Object.entries(triggerProps)) {
+    const own = childProps[name];
+    if (name.startsWith('on') && typeof own === 'function' && typeof handler === 'function') {
+      merged[name] = (e: unknown) => {
+        own(e);
+        handler(e);
+      };
+    }
+  }
+
+  merged.ref = mergeRefs(childProps.ref as React.Ref<HTMLElement> | undefined, triggerProps.ref);
+  merged['aria-describedby'] = [childProps['aria-describedby'], triggerProps['aria-describedby']]
+    .filter(Boolean)
+    .join(' ');
+
+  return cloneElement(trigger, merged);
+}
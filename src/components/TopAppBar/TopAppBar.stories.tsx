@@ -0,0 +1,122 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { useRef } from 'react';
+import { TopAppBar, type TopAppBarProps } from './TopAppBar';
+import { IconButton } from '../IconButton';
+
+const meta: Meta<typeof TopAppBar> = {
+  title: 'Components/TopAppBar',
+  component: TopAppBar,
+  tags: ['autodocs'],
+  parameters: { layout: 'centered' },
+  argTypes: {
+    variant: {
+      control: 'select',
+      options: ['small', 'center-aligned', 'medium', 'large'],
+    },
+    scrollBehavior: {
+      control: 'select',
+      options: ['none', 'elevate', 'collapse', 'hide'],
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof TopAppBar>;
+
+const MenuIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M3 18h18v-2H3v2zm0-5h18v-2H3v2zm0-7v2h18V6H3z" /></svg>
+);
+const ArrowBackIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M20 11H7.83l5.59-5.59L12 4l-8 8 8 8 1.41-1.41L7.83 13H20v-2z" /></svg>
+);
+const SearchIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M15.5 14h-.79l-.28-.27C15.41 12.59 16 11.11 16 9.5 16 5.91 13.09 3 9.5 3S3 5.91 3 9.5 5.91 16 9.5 16c1.61 0 3.09-.59 4.23-1.57l.27.28v.79l5 4.99L20.49 19l-4.99-5zm-6 0C7.01 14 5 11.99 5 9.5S7.01 5 9.5 5 14 7.01 14 9.5 11.99 14 9.5 14z" /></svg>
+);
+const MoreVertIcon = () => (
+  <svg viewBox="0 0 24 24" fill="currentColor"><path d="M12 8c1.1 0 2-.9 2-2s-.9-2-2-2-2 .9-2 2 .9 2 2 2zm0 2c-1.1 0-2 .9-2 2s.9 2 2 2 2-.9 2-2-.9-2-2-2zm0 6c-1.1 0-2 .9-2 2s.9 2 2 2 2-.9 2-2-.9-2-2-2z" /></svg>
+);
+
+/**
+ * Renders the bar at the top of a scrollable frame, which drives its
+ * scroll behavior.
+ */
+function ScrollFrame(props: TopAppBarProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  return (
+    <div
+      ref={scrollRef}
+      style={{
+        width: 400,
+        height: 480,
+        overflow: 'auto',
+        backgroundColor: 'var(--md-sys-color-surface)',
+        fontFamily: 'Roboto, sans-serif',
+      }}
+    >
+      <TopAppBar scrollContainer={scrollRef} {...props} />
+      <div style={{ padding: 16 }}>
+        {Array.from({ length: 30 }, (_, i) => (
+          <p key={i} style={{ margin: '0 0 16px', color: 'var(--md-sys-color-on-surface-variant)' }}>
+            Item {i + 1}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const navigationIcon = (
+  <IconButton aria-label="Back"><ArrowBackIcon /></IconButton>
+);
+
+const actions = (
+  <>
+    <IconButton aria-label="Search"><SearchIcon /></IconButton>
+    <IconButton aria-label="More options"><MoreVertIcon /></IconButton>
+  </>
+);
+
+/* ==========================================================================
+   VARIANTS
+   ========================================================================== */
+
+export const Small: Story = {
+  args: { variant: 'small', headline: 'Title' },
+  render: (args) => <ScrollFrame {...args} navigationIcon={navigationIcon} actions={actions} />,
+};
+
+export const CenterAligned: Story = {
+  args: { variant: 'center-aligned', headline: 'Title' },
+  render: (args) => (
+    <ScrollFrame
+      {...args}
+      navigationIcon={<IconButton aria-label="Menu"><MenuIcon /></IconButton>}
+      actions={<IconButton aria-label="Search"><SearchIcon /></IconButton>}
+    />
+  ),
+};
+
+export const Medium: Story = {
+  args: { variant: 'medium', headline: 'Medium title' },
+  render: (args) => <ScrollFrame {...args} navigationIcon={navigationIcon} actions={actions} />,
+};
+
+export const Large: Story = {
+  args: { variant: 'large', headline: 'Large title' },
+  render: (args) => <ScrollFrame {...args} navigationIcon={navigationIcon} actions={actions} />,
+};
+
+/* ==========================================================================
+   SCROLL BEHAVIORS
+   ========================================================================== */
+
+export const HideOnScroll: Story = {
+  args: { variant: 'small', headline: 'Hides on scroll', scrollBehavior: 'hide' },
+  render: (args) => <ScrollFrame {...args} navigationIcon={navigationIcon} actions={actions} />,
+};
+
+export const Pinned: Story = {
+  args: { variant: 'large', headline: 'Never collapses', scrollBehavior: 'elevate' },
+  render: (args) => <ScrollFrame {...args} navigationIcon={navigationIcon} actions={actions} />,
+};
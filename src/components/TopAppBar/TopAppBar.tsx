@@ -0,0 +1,130 @@
+'use client';
+
+import { forwardRef, useCallback, useRef, useState } from 'react';
+import styles from './TopAppBar.module.css';
+import { useScrollListener, type ScrollContainer, type ScrollPosition } from '../../hooks';
+import { cn, mergeRefs } from '../../utils';
+
+export type TopAppBarVariant = 'small' | 'center-aligned' | 'medium' | 'large';
+
+/**
+ * What the bar does when its scroll container scrolls:
+ * - `none`: stays as is.
+ * - `elevate`: switches to the surface-container color once scrolled.
+ * - `collapse`: medium and large bars collapse their headline into the
+ *   small bar, then elevate.
+ * - `hide`: elevates, slides away on scroll down and back on scroll up.
+ */
+export type TopAppBarScrollBehavior = 'none' | 'elevate' | 'collapse' | 'hide';
+
+export type TopAppBarProps = {
+  variant?: TopAppBarVariant;
+  headline?: React.ReactNode;
+  /** Leading navigation icon, usually an `IconButton`. */
+  navigationIcon?: React.ReactNode;
+  /** Trailing action icons, usually `IconButton`s. */
+  actions?: React.ReactNode;
+  /**
+   * @default 'collapse' for medium and large bars, 'elevate' otherwise
+   */
+  scrollBehavior?: TopAppBarScrollBehavior;
+  /**
+   * Element whose scrolling drives `scrollBehavior`. The bar should be
+   * placed at the top of its content.
+   * @default window
+   */
+  scrollContainer?: ScrollContainer | null;
+  className?: string;
+} & React.HTMLAttributes<HTMLElement>;
+
+const variantClass: Record<TopAppBarVariant, string> = {
+  small: styles.small,
+  'center-aligned': styles.centerAligned,
+  medium: styles.medium,
+  large: styles.large,
+};
+
+export const TopAppBar = forwardRef<HTMLElement, TopAppBarProps>(
+  (
+    {
+      variant = 'small',
+      headline,
+      navigationIcon,
+      actions,
+      scrollBehavior,
+      scrollContainer,
+      className,
+      ...props
+    },
+    ref
+  ) => {
+    const barRef = useRef<HTMLElement>(null);
+    const expandedRef = useRef<HTMLDivElement>(null);
+    const [scrolled, setScrolled] = useState(false);
+    const [collapsed, setCollapsed] = useState(false);
+    const [hidden, setHidden] = useState(false);
+
+    const expandable = variant === 'medium' || variant === 'large';
+    const behavior = scrollBehavior ?? (expandable ? 'collapse' : 'elevate');
+
+    const handleScroll = useCallback(
+      ({ top, delta }: ScrollPosition) => {
+        setScrolled(top > 0);
+
+        if (behavior === 'collapse') {
+          setCollapsed(top >= (expandedRef.current?.offsetHeight ?? 0));
+        }
+
+        if (behavior === 'hide') {
+          if (delta < 0 || top <= 0) {
+            setHidden(false);
+          } else if (delta > 0 && top > (barRef.current?.offsetHeight ?? 0)) {
+            setHidden(true);
+          }
+        }
+      },
+      [behavior]
+    );
+
+    useScrollListener(handleScroll, scrollContainer, behavior !== 'none');
+
+    const isScrolled = behavior !== 'none' && scrolled;
+    const isCollapsed = behavior === 'collapse' && collapsed;
+    const isHidden = behavior === 'hide' && hidden;
+
+    return (
+      <header
+        ref={mergeRefs(barRef, ref)}
+        className={cn(
+          styles.bar,
+          variantClass[variant],
+          behavior === 'collapse' && styles.collapsible,
+          isScrolled && styles.scrolled,
+          isHidden && styles.hidden,
+          className
+        )}
+        {...props}
+      >
+        <div className={styles.row}>
+          {navigationIcon && <div className={styles.navigationIcon}>{navigationIcon}</div>}
+          {headline && (
+            <h1
+              className={cn(styles.headline, expandable && !isCollapsed && styles.headlineConcealed)}
+              aria-hidden={expandable || undefined}
+            >
+              {headline}
+            </h1>
+          )}
+          {actions && <div className={styles.actions}>{actions}</div>}
+        </div>
+        {expandable && (
+          <div ref={expandedRef} className={styles.expanded}>
+            {headline && <h1 className={styles.expandedHeadline}>{headline}</h1>}
+          </div>
+        )}
+      </header>
+    );
+  }
+);
+
+TopAppBar.displayName = 'TopAppBar';
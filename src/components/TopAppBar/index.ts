@@ -0,0 +1,2 @@
+export { TopAppBar } from './TopAppBar';
+export type { TopAppBarProps, TopAppBarVariant, TopAppBarScrollBehavior } from './TopAppBar';
@@ -5,3 +5,6 @@ export { useKeyboardNavigation } from './useKeyboardNavigation';
 export type { KeyboardNavigationOptions } from './useKeyboardNavigation';
 export { useFormValidation } from './useFormValidation';
 export type { FormValidationOptions, FormValidationReturn } from './useFormValidation';
+export { useToken } from './useToken';
+export { useScrollListener } from './useScrollListener';
+export type { ScrollContainer, ScrollPosition } from './useScrollListener';
@@ -1,6 +1,7 @@
 'use client';
 
 import { useRef, useCallback, useState } from 'react';
+import { animate } from '../utils';
 
 /**
  * Material Design 3 Ripple Hook
@@ -10,14 +11,12 @@ import { useRef, useCallback, useState } from 'react';
  * @see https://github.com/material-components/material-web/blob/main/ripple/internal/ripple.ts
  */
 
-const PRESS_GROW_MS = 450;
 const MINIMUM_PRESS_MS = 225;
 const INITIAL_ORIGIN_SCALE = 0.2;
 const PADDING = 10;
 const SOFT_EDGE_MINIMUM_SIZE = 75;
 const SOFT_EDGE_CONTAINER_RATIO = 0.35;
 const TOUCH_DELAY_MS = 150;
-const EASING_STANDARD = 'cubic-bezier(0.2, 0, 0, 1)';
 
 const State = {
   INACTIVE: 0,
@@ -158,7 +157,8 @@ export function useRipple<T extends HTMLElement = HTMLElement>(disabled: boolean
       const translateStart = `${startPoint.x}px, ${startPoint.y}px`;
       const translateEnd = `${endPoint.x}px, ${endPoint.y}px`;
 
-      growAnimationRef.current = surface.animate(
+      growAnimationRef.current = animate(
+        surface,
         {
           top: [0, 0],
           left: [0, 0],
@@ -171,8 +171,8 @@ export function useRipple<T extends HTMLElement = HTMLElement>(disabled: boolean
         },
         {
           pseudoElement: '::after',
-          duration: PRESS_GROW_MS,
-          easing: EASING_STANDARD,
+          duration: 'long1',
+          easing: 'standard',
           fill: 'forwards',
         }
       );
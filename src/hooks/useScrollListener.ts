@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect, type RefObject } from 'react';
+
+/**
+ * Element whose scrolling drives a scroll behavior: a ref, an element, or
+ * the window.
+ */
+export type ScrollContainer = RefObject<HTMLElement | null> | HTMLElement | Window;
+
+export interface ScrollPosition {
+  /** Current scroll offset from the top, in pixels. */
+  top: number;
+  /** Distance scrolled since the last call; positive when scrolling down. */
+  delta: number;
+}
+
+/**
+ * Calls `handler` with the scroll position of `container` (the window by
+ * default) once on mount and then on every scroll. Used by TopAppBar and
+ * BottomAppBar for their scroll behaviors.
+ */
+export function useScrollListener(
+  handler: (position: ScrollPosition) => void,
+  container?: ScrollContainer | null,
+  enabled = true,
+): void {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const target = container && 'current' in container ? container.current : (container ?? window);
+    if (!target) return;
+
+    const readTop = () => ('scrollY' in target ? target.scrollY : target.scrollTop);
+    let lastTop = readTop();
+
+    const listener = () => {
+      const top = readTop();
+      handler({ top, delta: top - lastTop });
+      lastTop = top;
+    };
+
+    handler({ top: lastTop, delta: 0 });
+    target.addEventListener('scroll', listener, { passive: true });
+    return () => target.removeEventListener('scroll', listener);
+  }, [handler, container, enabled]);
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { useCallback, useSyncExternalStore, type RefObject } from 'react';
+import type { TokenName, TokenReference } from '../styles/tokens';
+
+/**
+ * Attributes ThemeProvider changes when the theme changes.
+ */
+const THEME_ATTRIBUTES = [
+  'style',
+  'class',
+  'data-theme',
+  'data-scheme',
+  'data-scheme-variant',
+  'data-contrast',
+  'data-reduced-motion',
+];
+
+/**
+ * System preferences the token values depend on.
+ */
+const THEME_QUERIES = [
+  '(prefers-color-scheme: dark)',
+  '(prefers-contrast: more)',
+  '(prefers-reduced-motion: reduce)',
+];
+
+function toPropertyName(token: TokenName | TokenReference): string {
+  return token.startsWith('var(') ? token.slice(4, -1) : token;
+}
+
+/**
+ * Returns the resolved value of a design token, e.g. `'#6750a4'` for
+ * `'--md-sys-color-primary'` or `tokens.color.primary`. Re-reads the value
+ * when the theme changes. Pass `ref` to resolve it inside a subtree-scoped
+ * ThemeProvider. Returns an empty string during SSR.
+ */
+export function useToken(
+  token: TokenName | TokenReference,
+  ref?: RefObject<HTMLElement | null>,
+): string {
+  const property = toPropertyName(token);
+
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      const observer = new MutationObserver(onChange);
+      const observe = (target: Element | null) => {
+        if (target) observer.observe(target, { attributes: true, attributeFilter: THEME_ATTRIBUTES });
+      };
+      observe(document.documentElement);
+      observe(ref?.current?.closest('[data-theme]') ?? null);
+
+      const queries = THEME_QUERIES.map((q) => window.matchMedia(q));
+      queries.forEach((q) => q.addEventListener('change', onChange));
+
+      return () => {
+        observer.disconnect();
+        queries.forEach((q) => q.removeEventListener('change', onChange));
+      };
+    },
+    [ref],
+  );
+
+  const getSnapshot = useCallback(
+    () =>
+      getComputedStyle(ref?.current ?? document.documentElement)
+        .getPropertyValue(property)
+        .trim(),
+    [ref, property],
+  );
+
+  return useSyncExternalStore(subscribe, getSnapshot, () => '');
+}
@@ -1,4 +1,5 @@
 export * from './components/Badge';
+export * from './components/BottomAppBar';
 export * from './components/Button';
 export * from './components/Card';
 export * from './components/Checkbox';
@@ -12,13 +13,19 @@ export * from './components/List';
 export * from './components/Menu';
 export * from './components/NavigationBar';
 export * from './components/NavigationDrawer';
+export * from './components/NavigationRail';
 export * from './components/Progress';
 export * from './components/Radio';
 export * from './components/SegmentedButton';
 export * from './components/Select';
 export * from './components/Slider';
+export * from './components/Snackbar';
 export * from './components/Switch';
 export * from './components/Tabs';
+export * from './components/Text';
 export * from './components/TextField';
 export * from './components/ThemeProvider';
+export * from './components/Tooltip';
+export * from './components/TopAppBar';
 
+export * from './styles/tokens';
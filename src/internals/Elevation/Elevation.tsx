@@ -0,0 +1,37 @@
+'use client';
+
+import { forwardRef, type CSSProperties } from 'react';
+import { cn } from '../../utils';
+import styles from './Elevation.module.css';
+
+export type ElevationLevel = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ElevationProps {
+  /** Elevation level. When omitted, the host's `--md-elevation-level` is used. */
+  level?: ElevationLevel;
+  /** Apply a surface-tint overlay that grows with the level. */
+  tint?: boolean;
+  className?: string;
+}
+
+/**
+ * M3 elevation shadow that animates between levels.
+ * Renders as an absolutely-positioned span; host must be `position: relative`
+ * and must not clip its overflow.
+ */
+export const Elevation = forwardRef<HTMLSpanElement, ElevationProps>(
+  ({ level, tint, className }, ref) => (
+    <span
+      ref={ref}
+      aria-hidden="true"
+      className={cn(styles.elevation, tint && styles.tint, className)}
+      style={
+        level === undefined
+          ? undefined
+          : ({ '--md-elevation-level': level } as CSSProperties)
+      }
+    />
+  ),
+);
+
+Elevation.displayName = 'Elevation';
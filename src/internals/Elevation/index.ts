@@ -0,0 +1,2 @@
+export { Elevation } from './Elevation';
+export type { ElevationProps, ElevationLevel } from './Elevation';
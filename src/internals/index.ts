@@ -9,3 +9,6 @@ export type { FocusRingProps } from './FocusRing';
 
 export { Item } from './Item';
 export type { ItemProps } from './Item';
+
+export { Elevation } from './Elevation';
+export type { ElevationProps, ElevationLevel } from './Elevation';
@@ -0,0 +1,384 @@
+/* AUTO-GENERATED by scripts/build-tokens.ts - DO NOT EDIT */
+
+/**
+ * Name of a design token custom property declared in theme.css or schemes.css.
+ */
+export type TokenName =
+  | '--md-sys-color-primary'
+  | '--md-sys-color-on-primary'
+  | '--md-sys-color-primary-container'
+  | '--md-sys-color-on-primary-container'
+  | '--md-sys-color-secondary'
+  | '--md-sys-color-on-secondary'
+  | '--md-sys-color-secondary-container'
+  | '--md-sys-color-on-secondary-container'
+  | '--md-sys-color-tertiary'
+  | '--md-sys-color-on-tertiary'
+  | '--md-sys-color-tertiary-container'
+  | '--md-sys-color-on-tertiary-container'
+  | '--md-sys-color-error'
+  | '--md-sys-color-on-error'
+  | '--md-sys-color-error-container'
+  | '--md-sys-color-on-error-container'
+  | '--md-sys-color-background'
+  | '--md-sys-color-on-background'
+  | '--md-sys-color-surface'
+  | '--md-sys-color-on-surface'
+  | '--md-sys-color-surface-dim'
+  | '--md-sys-color-surface-bright'
+  | '--md-sys-color-surface-variant'
+  | '--md-sys-color-on-surface-variant'
+  | '--md-sys-color-surface-container-lowest'
+  | '--md-sys-color-surface-container-low'
+  | '--md-sys-color-surface-container'
+  | '--md-sys-color-surface-container-high'
+  | '--md-sys-color-surface-container-highest'
+  | '--md-sys-color-outline'
+  | '--md-sys-color-outline-variant'
+  | '--md-sys-color-shadow'
+  | '--md-sys-color-scrim'
+  | '--md-sys-color-inverse-surface'
+  | '--md-sys-color-inverse-on-surface'
+  | '--md-sys-color-inverse-primary'
+  | '--md-sys-shape-corner-full'
+  | '--md-sys-shape-corner-extra-large'
+  | '--md-sys-shape-corner-large'
+  | '--md-sys-shape-corner-medium'
+  | '--md-sys-shape-corner-small'
+  | '--md-sys-shape-corner-extra-small'
+  | '--md-sys-shape-corner-family'
+  | '--md-sys-elevation-level-0'
+  | '--md-sys-elevation-level-1'
+  | '--md-sys-elevation-level-2'
+  | '--md-sys-elevation-level-3'
+  | '--md-sys-elevation-level-4'
+  | '--md-sys-elevation-level-5'
+  | '--md-sys-state-hover-state-layer-opacity'
+  | '--md-sys-state-focus-state-layer-opacity'
+  | '--md-sys-state-pressed-state-layer-opacity'
+  | '--md-sys-state-dragged-state-layer-opacity'
+  | '--md-sys-transition-duration'
+  | '--md-sys-transition-duration-short'
+  | '--md-sys-transition-duration-medium'
+  | '--md-sys-transition-duration-long'
+  | '--md-sys-transition-easing'
+  | '--md-sys-transition-easing-linear'
+  | '--md-sys-transition-easing-emphasized'
+  | '--md-sys-typescale-display-large-font'
+  | '--md-sys-typescale-display-large-size'
+  | '--md-sys-typescale-display-large-line-height'
+  | '--md-sys-typescale-display-large-weight'
+  | '--md-sys-typescale-display-large-tracking'
+  | '--md-sys-typescale-display-medium-font'
+  | '--md-sys-typescale-display-medium-size'
+  | '--md-sys-typescale-display-medium-line-height'
+  | '--md-sys-typescale-display-medium-weight'
+  | '--md-sys-typescale-display-medium-tracking'
+  | '--md-sys-typescale-display-small-font'
+  | '--md-sys-typescale-display-small-size'
+  | '--md-sys-typescale-display-small-line-height'
+  | '--md-sys-typescale-display-small-weight'
+  | '--md-sys-typescale-display-small-tracking'
+  | '--md-sys-typescale-headline-large-font'
+  | '--md-sys-typescale-headline-large-size'
+  | '--md-sys-typescale-headline-large-line-height'
+  | '--md-sys-typescale-headline-large-weight'
+  | '--md-sys-typescale-headline-large-tracking'
+  | '--md-sys-typescale-headline-medium-font'
+  | '--md-sys-typescale-headline-medium-size'
+  | '--md-sys-typescale-headline-medium-line-height'
+  | '--md-sys-typescale-headline-medium-weight'
+  | '--md-sys-typescale-headline-medium-tracking'
+  | '--md-sys-typescale-headline-small-font'
+  | '--md-sys-typescale-headline-small-size'
+  | '--md-sys-typescale-headline-small-line-height'
+  | '--md-sys-typescale-headline-small-weight'
+  | '--md-sys-typescale-headline-small-tracking'
+  | '--md-sys-typescale-title-large-font'
+  | '--md-sys-typescale-title-large-size'
+  | '--md-sys-typescale-title-large-line-height'
+  | '--md-sys-typescale-title-large-weight'
+  | '--md-sys-typescale-title-large-tracking'
+  | '--md-sys-typescale-title-medium-font'
+  | '--md-sys-typescale-title-medium-size'
+  | '--md-sys-typescale-title-medium-line-height'
+  | '--md-sys-typescale-title-medium-weight'
+  | '--md-sys-typescale-title-medium-tracking'
+  | '--md-sys-typescale-title-small-font'
+  | '--md-sys-typescale-title-small-size'
+  | '--md-sys-typescale-title-small-line-height'
+  | '--md-sys-typescale-title-small-weight'
+  | '--md-sys-typescale-title-small-tracking'
+  | '--md-sys-typescale-label-large-font'
+  | '--md-sys-typescale-label-large-size'
+  | '--md-sys-typescale-label-large-line-height'
+  | '--md-sys-typescale-label-large-weight'
+  | '--md-sys-typescale-label-large-tracking'
+  | '--md-sys-typescale-label-medium-font'
+  | '--md-sys-typescale-label-medium-size'
+  | '--md-sys-typescale-label-medium-line-height'
+  | '--md-sys-typescale-label-medium-weight'
+  | '--md-sys-typescale-label-medium-tracking'
+  | '--md-sys-typescale-label-small-font'
+  | '--md-sys-typescale-label-small-size'
+  | '--md-sys-typescale-label-small-line-height'
+  | '--md-sys-typescale-label-small-weight'
+  | '--md-sys-typescale-label-small-tracking'
+  | '--md-sys-typescale-body-large-font'
+  | '--md-sys-typescale-body-large-size'
+  | '--md-sys-typescale-body-large-line-height'
+  | '--md-sys-typescale-body-large-weight'
+  | '--md-sys-typescale-body-large-tracking'
+  | '--md-sys-typescale-body-medium-font'
+  | '--md-sys-typescale-body-medium-size'
+  | '--md-sys-typescale-body-medium-line-height'
+  | '--md-sys-typescale-body-medium-weight'
+  | '--md-sys-typescale-body-medium-tracking'
+  | '--md-sys-typescale-body-small-font'
+  | '--md-sys-typescale-body-small-size'
+  | '--md-sys-typescale-body-small-line-height'
+  | '--md-sys-typescale-body-small-weight'
+  | '--md-sys-typescale-body-small-tracking'
+  | '--md-sys-motion-easing-standard'
+  | '--md-sys-motion-easing-standard-accelerate'
+  | '--md-sys-motion-easing-standard-decelerate'
+  | '--md-sys-motion-easing-emphasized'
+  | '--md-sys-motion-easing-emphasized-accelerate'
+  | '--md-sys-motion-easing-emphasized-decelerate'
+  | '--md-sys-motion-easing-linear'
+  | '--md-sys-motion-duration-short1'
+  | '--md-sys-motion-duration-short2'
+  | '--md-sys-motion-duration-short3'
+  | '--md-sys-motion-duration-short4'
+  | '--md-sys-motion-duration-medium1'
+  | '--md-sys-motion-duration-medium2'
+  | '--md-sys-motion-duration-medium3'
+  | '--md-sys-motion-duration-medium4'
+  | '--md-sys-motion-duration-long1'
+  | '--md-sys-motion-duration-long2'
+  | '--md-sys-motion-duration-long3'
+  | '--md-sys-motion-duration-long4'
+  | '--md-sys-motion-duration-extra-long1'
+  | '--md-sys-motion-duration-extra-long2'
+  | '--md-sys-motion-duration-extra-long3'
+  | '--md-sys-motion-duration-extra-long4'
+  | '--md-sys-color-surface-tint';
+
+/**
+ * A design token as a CSS `var()` reference.
+ */
+export type TokenReference = `var(${TokenName})`;
+
+/**
+ * Design tokens as typed `var()` references, for inline styles and CSS-in-JS.
+ *
+ * @example
+ * ```tsx
+ * <div style={{ color: tokens.color.primary, fontFamily: tokens.typescale.bodyLarge.font }} />
+ * ```
+ */
+export const tokens = {
+  color: {
+    primary: 'var(--md-sys-color-primary)',
+    onPrimary: 'var(--md-sys-color-on-primary)',
+    primaryContainer: 'var(--md-sys-color-primary-container)',
+    onPrimaryContainer: 'var(--md-sys-color-on-primary-container)',
+    secondary: 'var(--md-sys-color-secondary)',
+    onSecondary: 'var(--md-sys-color-on-secondary)',
+    secondaryContainer: 'var(--md-sys-color-secondary-container)',
+    onSecondaryContainer: 'var(--md-sys-color-on-secondary-container)',
+    tertiary: 'var(--md-sys-color-tertiary)',
+    onTertiary: 'var(--md-sys-color-on-tertiary)',
+    tertiaryContainer: 'var(--md-sys-color-tertiary-container)',
+    onTertiaryContainer: 'var(--md-sys-color-on-tertiary-container)',
+    error: 'var(--md-sys-color-error)',
+    onError: 'var(--md-sys-color-on-error)',
+    errorContainer: 'var(--md-sys-color-error-container)',
+    onErrorContainer: 'var(--md-sys-color-on-error-container)',
+    background: 'var(--md-sys-color-background)',
+    onBackground: 'var(--md-sys-color-on-background)',
+    surface: 'var(--md-sys-color-surface)',
+    onSurface: 'var(--md-sys-color-on-surface)',
+    surfaceDim: 'var(--md-sys-color-surface-dim)',
+    surfaceBright: 'var(--md-sys-color-surface-bright)',
+    surfaceVariant: 'var(--md-sys-color-surface-variant)',
+    onSurfaceVariant: 'var(--md-sys-color-on-surface-variant)',
+    surfaceContainerLowest: 'var(--md-sys-color-surface-container-lowest)',
+    surfaceContainerLow: 'var(--md-sys-color-surface-container-low)',
+    surfaceContainer: 'var(--md-sys-color-surface-container)',
+    surfaceContainerHigh: 'var(--md-sys-color-surface-container-high)',
+    surfaceContainerHighest: 'var(--md-sys-color-surface-container-highest)',
+    outline: 'var(--md-sys-color-outline)',
+    outlineVariant: 'var(--md-sys-color-outline-variant)',
+    shadow: 'var(--md-sys-color-shadow)',
+    scrim: 'var(--md-sys-color-scrim)',
+    inverseSurface: 'var(--md-sys-color-inverse-surface)',
+    inverseOnSurface: 'var(--md-sys-color-inverse-on-surface)',
+    inversePrimary: 'var(--md-sys-color-inverse-primary)',
+    surfaceTint: 'var(--md-sys-color-surface-tint)',
+  },
+  shape: {
+    cornerFull: 'var(--md-sys-shape-corner-full)',
+    cornerExtraLarge: 'var(--md-sys-shape-corner-extra-large)',
+    cornerLarge: 'var(--md-sys-shape-corner-large)',
+    cornerMedium: 'var(--md-sys-shape-corner-medium)',
+    cornerSmall: 'var(--md-sys-shape-corner-small)',
+    cornerExtraSmall: 'var(--md-sys-shape-corner-extra-small)',
+    cornerFamily: 'var(--md-sys-shape-corner-family)',
+  },
+  elevation: {
+    level0: 'var(--md-sys-elevation-level-0)',
+    level1: 'var(--md-sys-elevation-level-1)',
+    level2: 'var(--md-sys-elevation-level-2)',
+    level3: 'var(--md-sys-elevation-level-3)',
+    level4: 'var(--md-sys-elevation-level-4)',
+    level5: 'var(--md-sys-elevation-level-5)',
+  },
+  state: {
+    hoverStateLayerOpacity: 'var(--md-sys-state-hover-state-layer-opacity)',
+    focusStateLayerOpacity: 'var(--md-sys-state-focus-state-layer-opacity)',
+    pressedStateLayerOpacity: 'var(--md-sys-state-pressed-state-layer-opacity)',
+    draggedStateLayerOpacity: 'var(--md-sys-state-dragged-state-layer-opacity)',
+  },
+  transition: {
+    duration: 'var(--md-sys-transition-duration)',
+    durationShort: 'var(--md-sys-transition-duration-short)',
+    durationMedium: 'var(--md-sys-transition-duration-medium)',
+    durationLong: 'var(--md-sys-transition-duration-long)',
+    easing: 'var(--md-sys-transition-easing)',
+    easingLinear: 'var(--md-sys-transition-easing-linear)',
+    easingEmphasized: 'var(--md-sys-transition-easing-emphasized)',
+  },
+  typescale: {
+    displayLarge: {
+      font: 'var(--md-sys-typescale-display-large-font)',
+      size: 'var(--md-sys-typescale-display-large-size)',
+      lineHeight: 'var(--md-sys-typescale-display-large-line-height)',
+      weight: 'var(--md-sys-typescale-display-large-weight)',
+      tracking: 'var(--md-sys-typescale-display-large-tracking)',
+    },
+    displayMedium: {
+      font: 'var(--md-sys-typescale-display-medium-font)',
+      size: 'var(--md-sys-typescale-display-medium-size)',
+      lineHeight: 'var(--md-sys-typescale-display-medium-line-height)',
+      weight: 'var(--md-sys-typescale-display-medium-weight)',
+      tracking: 'var(--md-sys-typescale-display-medium-tracking)',
+    },
+    displaySmall: {
+      font: 'var(--md-sys-typescale-display-small-font)',
+      size: 'var(--md-sys-typescale-display-small-size)',
+      lineHeight: 'var(--md-sys-typescale-display-small-line-height)',
+      weight: 'var(--md-sys-typescale-display-small-weight)',
+      tracking: 'var(--md-sys-typescale-display-small-tracking)',
+    },
+    headlineLarge: {
+      font: 'var(--md-sys-typescale-headline-large-font)',
+      size: 'var(--md-sys-typescale-headline-large-size)',
+      lineHeight: 'var(--md-sys-typescale-headline-large-line-height)',
+      weight: 'var(--md-sys-typescale-headline-large-weight)',
+      tracking: 'var(--md-sys-typescale-headline-large-tracking)',
+    },
+    headlineMedium: {
+      font: 'var(--md-sys-typescale-headline-medium-font)',
+      size: 'var(--md-sys-typescale-headline-medium-size)',
+      lineHeight: 'var(--md-sys-typescale-headline-medium-line-height)',
+      weight: 'var(--md-sys-typescale-headline-medium-weight)',
+      tracking: 'var(--md-sys-typescale-headline-medium-tracking)',
+    },
+    headlineSmall: {
+      font: 'var(--md-sys-typescale-headline-small-font)',
+      size: 'var(--md-sys-typescale-headline-small-size)',
+      lineHeight: 'var(--md-sys-typescale-headline-small-line-height)',
+      weight: 'var(--md-sys-typescale-headline-small-weight)',
+      tracking: 'var(--md-sys-typescale-headline-small-tracking)',
+    },
+    titleLarge: {
+      font: 'var(--md-sys-typescale-title-large-font)',
+      size: 'var(--md-sys-typescale-title-large-size)',
+      lineHeight: 'var(--md-sys-typescale-title-large-line-height)',
+      weight: 'var(--md-sys-typescale-title-large-weight)',
+      tracking: 'var(--md-sys-typescale-title-large-tracking)',
+    },
+    titleMedium: {
+      font: 'var(--md-sys-typescale-title-medium-font)',
+      size: 'var(--md-sys-typescale-title-medium-size)',
+      lineHeight: 'var(--md-sys-typescale-title-medium-line-height)',
+      weight: 'var(--md-sys-typescale-title-medium-weight)',
+      tracking: 'var(--md-sys-typescale-title-medium-tracking)',
+    },
+    titleSmall: {
+      font: 'var(--md-sys-typescale-title-small-font)',
+      size: 'var(--md-sys-typescale-title-small-size)',
+      lineHeight: 'var(--md-sys-typescale-title-small-line-height)',
+      weight: 'var(--md-sys-typescale-title-small-weight)',
+      tracking: 'var(--md-sys-typescale-title-small-tracking)',
+    },
+    labelLarge: {
+      font: 'var(--md-sys-typescale-label-large-font)',
+      size: 'var(--md-sys-typescale-label-large-size)',
+      lineHeight: 'var(--md-sys-typescale-label-large-line-height)',
+      weight: 'var(--md-sys-typescale-label-large-weight)',
+      tracking: 'var(--md-sys-typescale-label-large-tracking)',
+    },
+    labelMedium: {
+      font: 'var(--md-sys-typescale-label-medium-font)',
+      size: 'var(--md-sys-typescale-label-medium-size)',
+      lineHeight: 'var(--md-sys-typescale-label-medium-line-height)',
+      weight: 'var(--md-sys-typescale-label-medium-weight)',
+      tracking: 'var(--md-sys-typescale-label-medium-tracking)',
+    },
+    labelSmall: {
+      font: 'var(--md-sys-typescale-label-small-font)',
+      size: 'var(--md-sys-typescale-label-small-size)',
+      lineHeight: 'var(--md-sys-typescale-label-small-line-height)',
+      weight: 'var(--md-sys-typescale-label-small-weight)',
+      tracking: 'var(--md-sys-typescale-label-small-tracking)',
+    },
+    bodyLarge: {
+      font: 'var(--md-sys-typescale-body-large-font)',
+      size: 'var(--md-sys-typescale-body-large-size)',
+      lineHeight: 'var(--md-sys-typescale-body-large-line-height)',
+      weight: 'var(--md-sys-typescale-body-large-weight)',
+      tracking: 'var(--md-sys-typescale-body-large-tracking)',
+    },
+    bodyMedium: {
+      font: 'var(--md-sys-typescale-body-medium-font)',
+      size: 'var(--md-sys-typescale-body-medium-size)',
+      lineHeight: 'var(--md-sys-typescale-body-medium-line-height)',
+      weight: 'var(--md-sys-typescale-body-medium-weight)',
+      tracking: 'var(--md-sys-typescale-body-medium-tracking)',
+    },
+    bodySmall: {
+      font: 'var(--md-sys-typescale-body-small-font)',
+      size: 'var(--md-sys-typescale-body-small-size)',
+      lineHeight: 'var(--md-sys-typescale-body-small-line-height)',
+      weight: 'var(--md-sys-typescale-body-small-weight)',
+      tracking: 'var(--md-sys-typescale-body-small-tracking)',
+    },
+  },
+  motion: {
+    easingStandard: 'var(--md-sys-motion-easing-standard)',
+    easingStandardAccelerate: 'var(--md-sys-motion-easing-standard-accelerate)',
+    easingStandardDecelerate: 'var(--md-sys-motion-easing-standard-decelerate)',
+    easingEmphasized: 'var(--md-sys-motion-easing-emphasized)',
+    easingEmphasizedAccelerate: 'var(--md-sys-motion-easing-emphasized-accelerate)',
+    easingEmphasizedDecelerate: 'var(--md-sys-motion-easing-emphasized-decelerate)',
+    easingLinear: 'var(--md-sys-motion-easing-linear)',
+    durationShort1: 'var(--md-sys-motion-duration-short1)',
+    durationShort2: 'var(--md-sys-motion-duration-short2)',
+    durationShort3: 'var(--md-sys-motion-duration-short3)',
+    durationShort4: 'var(--md-sys-motion-duration-short4)',
+    durationMedium1: 'var(--md-sys-motion-duration-medium1)',
+    durationMedium2: 'var(--md-sys-motion-duration-medium2)',
+    durationMedium3: 'var(--md-sys-motion-duration-medium3)',
+    durationMedium4: 'var(--md-sys-motion-duration-medium4)',
+    durationLong1: 'var(--md-sys-motion-duration-long1)',
+    durationLong2: 'var(--md-sys-motion-duration-long2)',
+    durationLong3: 'var(--md-sys-motion-duration-long3)',
+    durationLong4: 'var(--md-sys-motion-duration-long4)',
+    durationExtraLong1: 'var(--md-sys-motion-duration-extra-long1)',
+    durationExtraLong2: 'var(--md-sys-motion-duration-extra-long2)',
+    durationExtraLong3: 'var(--md-sys-motion-duration-extra-long3)',
+    durationExtraLong4: 'var(--md-sys-motion-duration-extra-long4)',
+  },
+} as const;
@@ -0,0 +1,26 @@
+import type { CSSProperties } from 'react';
+
+/**
+ * Color role family a component `color` prop can target. Custom colors
+ * registered through ThemeProvider `customColors` are targeted by name.
+ */
+export type ColorRole = 'primary' | 'secondary' | 'tertiary' | 'error' | (string & {});
+
+/**
+ * Points a component's private `--_color`, `--_on-color`, `--_color-container`
+ * and `--_on-color-container` properties at a role family, merged into `style`.
+ */
+export function colorRoleStyle(
+  color: ColorRole | undefined,
+  style?: CSSProperties
+): CSSProperties | undefined {
+  if (!color) return style;
+  const role = color.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase();
+  return {
+    '--_color': `var(--md-sys-color-${role})`,
+    '--_on-color': `var(--md-sys-color-on-${role})`,
+    '--_color-container': `var(--md-sys-color-${role}-container)`,
+    '--_on-color-container': `var(--md-sys-color-on-${role}-container)`,
+    ...style,
+  } as CSSProperties;
+}
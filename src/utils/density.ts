@@ -0,0 +1,21 @@
+import type { CSSProperties } from 'react';
+
+/**
+ * M3 density level. Each step below 0 removes 4px from a component's
+ * container height; touch targets stay 48px.
+ *
+ * @see https://m3.material.io/foundations/layout/understanding-layout/spacing#density
+ */
+export type Density = 0 | -1 | -2 | -3;
+
+/**
+ * Sets `--md-sys-density` for a component and its descendants, merged into
+ * `style`. Without a `density`, the level set by ThemeProvider is inherited.
+ */
+export function densityStyle(
+  density: Density | undefined,
+  style?: CSSProperties
+): CSSProperties | undefined {
+  if (density === undefined) return style;
+  return { '--md-sys-density': density, ...style } as CSSProperties;
+}
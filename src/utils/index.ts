@@ -2,3 +2,15 @@ export { cn } from './cn';
 export { mergeRefs } from './mergeRefs';
 export { createSafeContext, createOptionalContext } from './createContext';
 export type { AsProp, PolymorphicComponentProps } from './polymorphic';
+export { colorRoleStyle } from './colorRole';
+export type { ColorRole } from './colorRole';
+export { densityStyle } from './density';
+export type { Density } from './density';
+export {
+  animate,
+  prefersReducedMotion,
+  resolveMotion,
+  MOTION_DURATION,
+  MOTION_EASING,
+} from './motion';
+export type { MotionDuration, MotionEasing, MotionOptions } from './motion';
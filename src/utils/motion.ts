@@ -0,0 +1,152 @@
+/**
+ * Material Design 3 Motion
+ *
+ * Easing and duration tokens for Web Animations. Token names resolve
+ * through the element's `--md-sys-motion-*` custom properties, so theme
+ * overrides apply; the values below are the defaults from theme.css.
+ *
+ * @see https://m3.material.io/styles/motion/easing-and-duration/tokens-specs
+ */
+
+export type MotionEasing =
+  | 'standard'
+  | 'standard-accelerate'
+  | 'standard-decelerate'
+  | 'emphasized'
+  | 'emphasized-accelerate'
+  | 'emphasized-decelerate'
+  | 'linear';
+
+export type MotionDuration =
+  | 'short1'
+  | 'short2'
+  | 'short3'
+  | 'short4'
+  | 'medium1'
+  | 'medium2'
+  | 'medium3'
+  | 'medium4'
+  | 'long1'
+  | 'long2'
+  | 'long3'
+  | 'long4'
+  | 'extra-long1'
+  | 'extra-long2'
+  | 'extra-long3'
+  | 'extra-long4';
+
+export const MOTION_EASING: Record<MotionEasing, string> = {
+  standard: 'cubic-bezier(0.2, 0, 0, 1)',
+  'standard-accelerate': 'cubic-bezier(0.3, 0, 1, 1)',
+  'standard-decelerate': 'cubic-bezier(0, 0, 0, 1)',
+  emphasized: 'cubic-bezier(0.2, 0, 0, 1)',
+  'emphasized-accelerate': 'cubic-bezier(0.3, 0, 0.8, 0.15)',
+  'emphasized-decelerate': 'cubic-bezier(0.05, 0.7, 0.1, 1)',
+  linear: 'cubic-bezier(0, 0, 1, 1)',
+};
+
+/**
+ * Durations in milliseconds.
+ */
+export const MOTION_DURATION: Record<MotionDuration, number> = {
+  short1: 50,
+  short2: 100,
+  short3: 150,
+  short4: 200,
+  medium1: 250,
+  medium2: 300,
+  medium3: 350,
+  medium4: 400,
+  long1: 450,
+  long2: 500,
+  long3: 550,
+  long4: 600,
+  'extra-long1': 700,
+  'extra-long2': 800,
+  'extra-long3': 900,
+  'extra-long4': 1000,
+};
+
+export interface MotionOptions extends Omit<KeyframeAnimationOptions, 'duration' | 'easing'> {
+  /**
+   * Duration token or milliseconds.
+   */
+  duration?: MotionDuration | number;
+
+  /**
+   * Easing token or any CSS easing function.
+   */
+  easing?: MotionEasing | (string & {});
+}
+
+/**
+ * Whether motion should be reduced for an element: the closest
+ * `data-reduced-motion` attribute (set by ThemeProvider `reducedMotion`)
+ * wins, otherwise the `prefers-reduced-motion` media query decides.
+ */
+export function prefersReducedMotion(element?: Element | null): boolean {
+  if (typeof window === 'undefined') return false;
+
+  const override = (element ?? document.documentElement)
+    .closest('[data-reduced-motion]')
+    ?.getAttribute('data-reduced-motion');
+  if (override === 'true') return true;
+  if (override === 'false') return false;
+
+  return window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+}
+
+function readToken(style: CSSStyleDeclaration, name: string): string {
+  return style.getPropertyValue(`--md-sys-motion-${name}`).trim();
+}
+
+function parseDuration(value: string): number | null {
+  const match = value.match(/^([\d.]+)(m?s)$/);
+  if (!match) return null;
+  return Number(match[1]) * (match[2] === 's' ? 1000 : 1);
+}
+
+/**
+ * Resolve duration and easing tokens for an element. Durations are zero
+ * when motion is reduced.
+ */
+export function resolveMotion(
+  element: Element,
+  { duration = 0, easing = 'linear' }: Pick<MotionOptions, 'duration' | 'easing'>
+): { duration: number; easing: string } {
+  if (prefersReducedMotion(element)) {
+    return { duration: 0, easing: MOTION_EASING.linear };
+  }
+
+  const isDurationToken = typeof duration === 'string';
+  const isEasingToken = easing in MOTION_EASING;
+  const style = isDurationToken || isEasingToken ? getComputedStyle(element) : null;
+
+  return {
+    duration: isDurationToken
+      ? (parseDuration(readToken(style!, `duration-${duration}`)) ?? MOTION_DURATION[duration])
+      : duration,
+    easing: isEasingToken
+      ? readToken(style!, `easing-${easing}`) || MOTION_EASING[easing as MotionEasing]
+      : easing,
+  };
+}
+
+/**
+ * `element.animate()` with motion tokens and reduced-motion support.
+ *
+ * @example
+ * ```ts
+ * await animate(dialog, [{ opacity: 0 }, { opacity: 1 }], {
+ *   duration: 'long2',
+ *   easing: 'emphasized',
+ * }).finished;
+ * ```
+ */
+export function animate(
+  element: Element,
+  keyframes: Keyframe[] | PropertyIndexedKeyframes,
+  { duration, easing, ...options }: MotionOptions = {}
+): Animation {
+  return element.animate(keyframes, { ...options, ...resolveMotion(element, { duration, easing }) });
+}